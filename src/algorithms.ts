@@ -0,0 +1,327 @@
+import type { RateLimitAlgorithm, RateLimitEntry } from "./types";
+
+export interface AlgorithmConfig {
+	/** Window in seconds. */
+	window: number;
+	max: number;
+	/** Tokens added per second (token bucket only). */
+	refillRate?: number;
+	/** Bucket capacity / burst tolerance (token bucket and GCRA only). */
+	burst?: number;
+}
+
+export interface AlgorithmResult {
+	allowed: boolean;
+	limit: number;
+	remaining: number;
+	resetAt: number;
+	retryAfter?: number;
+	/**
+	 * State to persist. `null` means the stored entry does not need to be
+	 * written (e.g. the request was rejected).
+	 */
+	entry: Omit<RateLimitEntry, "key"> | null;
+}
+
+export interface AlgorithmRefund {
+	entry: Omit<RateLimitEntry, "key">;
+	resetAt: number;
+}
+
+interface Algorithm {
+	/**
+	 * Takes `cost` units for a request. With a `cost` of `0` nothing is
+	 * taken and `remaining` reports the units currently available.
+	 */
+	consume: (
+		data: RateLimitEntry | null,
+		config: AlgorithmConfig,
+		now: number,
+		cost: number,
+	) => AlgorithmResult;
+	/**
+	 * Gives back `amount` previously consumed units. Returns `null` when
+	 * there is nothing left to refund.
+	 */
+	refund: (
+		data: RateLimitEntry,
+		config: AlgorithmConfig,
+		now: number,
+		amount: number,
+	) => AlgorithmRefund | null;
+}
+
+/**
+ * `undefined` when the request can never be allowed (its cost exceeds the
+ * limit).
+ */
+function toRetryAfter(until: number, now: number): number | undefined {
+	if (!Number.isFinite(until)) {
+		return undefined;
+	}
+	return Math.max(1, Math.ceil((until - now) / 1000));
+}
+
+/**
+ * Classic fixed window counter. `lastRequest` is the start of the current
+ * window and `count` the number of units consumed in it.
+ *
+ * Unlike the other algorithms this one does not read and write the entry
+ * itself: `entry` has already been incremented by `cost` atomically via
+ * `RateLimitStorage.increment`, so only the result is derived here.
+ */
+export function getFixedWindowResult(
+	entry: RateLimitEntry,
+	{ window, max }: AlgorithmConfig,
+	now: number,
+	cost: number,
+): AlgorithmResult {
+	const resetAt = entry.lastRequest + window * 1000;
+
+	if (entry.count > max) {
+		return {
+			allowed: false,
+			limit: max,
+			remaining: Math.max(0, max - (entry.count - cost)),
+			resetAt,
+			retryAfter: cost > max ? undefined : Math.ceil((resetAt - now) / 1000),
+			entry: null,
+		};
+	}
+
+	return {
+		allowed: true,
+		limit: max,
+		remaining: max - entry.count,
+		resetAt,
+		entry: null,
+	};
+}
+
+function rollSlidingWindow(
+	data: RateLimitEntry | null,
+	windowMs: number,
+	now: number,
+) {
+	let start = data?.lastRequest ?? now;
+	let count = data?.count ?? 0;
+	let previousCount = data?.previousCount ?? 0;
+
+	const elapsedWindows = Math.floor((now - start) / windowMs);
+	if (elapsedWindows >= 1) {
+		previousCount = elapsedWindows === 1 ? count : 0;
+		count = 0;
+		start += elapsedWindows * windowMs;
+	}
+	return { start, count, previousCount };
+}
+
+/**
+ * Weighted two-counter sliding window. The previous window's count is
+ * weighted by how much of it still overlaps the sliding window, which
+ * prevents the 2x burst a fixed window allows across its boundary.
+ *
+ * `lastRequest` is the start of the current window, `count` the requests in
+ * it and `previousCount` the requests in the window before.
+ */
+const slidingWindow: Algorithm = {
+	consume(data, { window, max }, now, cost) {
+		const windowMs = window * 1000;
+		const { start, count, previousCount } = rollSlidingWindow(
+			data,
+			windowMs,
+			now,
+		);
+
+		const weight = (windowMs - (now - start)) / windowMs;
+		const estimate = previousCount * weight + count;
+
+		if (estimate + cost > max) {
+			const budget = max - cost;
+			const allowedAt =
+				budget < 0
+					? Number.POSITIVE_INFINITY
+					: count <= budget && previousCount > 0
+						? start + windowMs - (windowMs * (budget - count)) / previousCount
+						: start + 2 * windowMs - (windowMs * budget) / count;
+			return {
+				allowed: false,
+				limit: max,
+				remaining: Math.max(0, Math.floor(max - estimate)),
+				resetAt: start + (count > 0 ? 2 : 1) * windowMs,
+				retryAfter: toRetryAfter(allowedAt, now),
+				entry: null,
+			};
+		}
+
+		return {
+			allowed: true,
+			limit: max,
+			remaining: Math.max(0, Math.floor(max - estimate - cost)),
+			resetAt: start + (count + cost > 0 ? 2 : 1) * windowMs,
+			entry: { count: count + cost, lastRequest: start, previousCount },
+		};
+	},
+	refund(data, { window }, now, amount) {
+		const windowMs = window * 1000;
+		const { start, count, previousCount } = rollSlidingWindow(
+			data,
+			windowMs,
+			now,
+		);
+		if (count === 0 && previousCount === 0) {
+			return null;
+		}
+		const fromCurrent = Math.min(count, amount);
+		const fromPrevious = Math.min(previousCount, amount - fromCurrent);
+		const entry = {
+			count: count - fromCurrent,
+			lastRequest: start,
+			previousCount: previousCount - fromPrevious,
+		};
+		return {
+			entry,
+			resetAt: start + (entry.count > 0 ? 2 : 1) * windowMs,
+		};
+	},
+};
+
+function refillTokenBucket(
+	data: RateLimitEntry | null,
+	{ window, max, refillRate, burst }: AlgorithmConfig,
+	now: number,
+) {
+	const capacity = burst ?? max;
+	const intervalMs = 1000 / (refillRate ?? max / window);
+
+	let tokens = data?.count ?? capacity;
+	let lastRefill = data?.lastRequest ?? now;
+
+	const refills = Math.floor((now - lastRefill) / intervalMs);
+	if (refills > 0) {
+		tokens = Math.min(capacity, tokens + refills);
+		lastRefill =
+			tokens === capacity ? now : Math.floor(lastRefill + refills * intervalMs);
+	}
+	return { capacity, intervalMs, tokens, lastRefill };
+}
+
+/**
+ * Token bucket. `count` is the number of tokens left and `lastRequest` the
+ * time of the last whole-token refill, so the state stays integral and can
+ * be stored in any backend.
+ */
+const tokenBucket: Algorithm = {
+	consume(data, config, now, cost) {
+		const { capacity, intervalMs, tokens, lastRefill } = refillTokenBucket(
+			data,
+			config,
+			now,
+		);
+
+		if (tokens < cost) {
+			const allowedAt =
+				cost > capacity
+					? Number.POSITIVE_INFINITY
+					: lastRefill + (cost - tokens) * intervalMs;
+			return {
+				allowed: false,
+				limit: capacity,
+				remaining: tokens,
+				resetAt: Math.ceil(lastRefill + (capacity - tokens) * intervalMs),
+				retryAfter: toRetryAfter(allowedAt, now),
+				entry: null,
+			};
+		}
+
+		const left = tokens - cost;
+		return {
+			allowed: true,
+			limit: capacity,
+			remaining: left,
+			resetAt: Math.ceil(lastRefill + (capacity - left) * intervalMs),
+			entry: { count: left, lastRequest: lastRefill },
+		};
+	},
+	refund(data, config, now, amount) {
+		const { capacity, intervalMs, tokens, lastRefill } = refillTokenBucket(
+			data,
+			config,
+			now,
+		);
+		if (tokens >= capacity) {
+			return null;
+		}
+		const left = Math.min(capacity, tokens + amount);
+		return {
+			entry: { count: left, lastRequest: lastRefill },
+			resetAt: Math.ceil(lastRefill + (capacity - left) * intervalMs),
+		};
+	},
+};
+
+/**
+ * Generic cell rate algorithm. `lastRequest` holds the theoretical arrival
+ * time (TAT); requests are spaced `window / max` apart with a tolerance of
+ * `burst` requests.
+ */
+const gcra: Algorithm = {
+	consume(data, { window, max, burst }, now, cost) {
+		const limit = burst ?? max;
+		const emissionInterval = (window * 1000) / max;
+		const tolerance = emissionInterval * limit;
+
+		const tat = Math.max(data?.lastRequest ?? now, now);
+		const newTat = tat + emissionInterval * cost;
+		const allowAt = newTat - tolerance;
+
+		if (now < allowAt) {
+			return {
+				allowed: false,
+				limit,
+				remaining: Math.max(
+					0,
+					Math.floor((now - tat + tolerance) / emissionInterval),
+				),
+				resetAt: Math.ceil(tat),
+				retryAfter: toRetryAfter(
+					cost > limit ? Number.POSITIVE_INFINITY : allowAt,
+					now,
+				),
+				entry: null,
+			};
+		}
+
+		return {
+			allowed: true,
+			limit,
+			remaining: Math.floor((now - allowAt) / emissionInterval),
+			resetAt: Math.ceil(newTat),
+			entry: { count: 0, lastRequest: Math.floor(newTat) },
+		};
+	},
+	refund(data, { window, max }, now, amount) {
+		if (data.lastRequest <= now) {
+			return null;
+		}
+		const emissionInterval = (window * 1000) / max;
+		const tat = Math.max(data.lastRequest - emissionInterval * amount, now);
+		return {
+			entry: { count: 0, lastRequest: Math.floor(tat) },
+			resetAt: Math.ceil(tat),
+		};
+	},
+};
+
+/**
+ * Read-modify-write algorithms. `"fixed-window"` is handled by
+ * {@link getFixedWindowResult}.
+ */
+export const RATE_LIMIT_ALGORITHMS: Record<
+	Exclude<RateLimitAlgorithm, "fixed-window">,
+	Algorithm
+> = {
+	"sliding-window": slidingWindow,
+	"token-bucket": tokenBucket,
+	gcra,
+};
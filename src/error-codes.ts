@@ -2,4 +2,12 @@ import { defineErrorCodes } from "@better-auth/core/utils/error-codes";
 
 export const RATE_LIMITER_ERROR_CODES = defineErrorCodes({
 	RATE_LIMITED: "Too many requests. Please try again later.",
+	BLOCKED: "Access denied.",
+	LOCKED_OUT: "Too many rate limit violations. Please try again later.",
+	STORAGE_UNAVAILABLE: "Rate limiting is temporarily unavailable.",
+	NOT_ALLOWED_TO_MANAGE_RATE_LIMITS:
+		"You are not allowed to manage rate limits.",
+	LIST_NOT_SUPPORTED: "Listing rate limits is not supported by this storage.",
+	CLEANUP_NOT_SUPPORTED:
+		"Cleaning up rate limits is only supported by database storage.",
 });
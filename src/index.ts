@@ -1,22 +1,141 @@
-import { createAuthEndpoint } from "@better-auth/core/api";
+import {
+	createAuthEndpoint,
+	createAuthMiddleware,
+} from "@better-auth/core/api";
+import type { AuthContext } from "@better-auth/core";
 import type { BetterAuthPluginDBSchema } from "@better-auth/core/db";
+import { BetterAuthError } from "@better-auth/core/error";
 import type { BetterAuthPlugin, GenericEndpointContext } from "better-auth";
-import { getIp, getSessionFromCtx } from "better-auth/api";
+import {
+	APIError,
+	getIp,
+	getSessionFromCtx,
+	isAPIError,
+	sessionMiddleware,
+} from "better-auth/api";
 import * as z from "zod/v4";
+import type { AlgorithmConfig, AlgorithmResult } from "./algorithms";
+import { getFixedWindowResult, RATE_LIMIT_ALGORITHMS } from "./algorithms";
 import { RATE_LIMITER_ERROR_CODES } from "./error-codes";
-import type { RateLimitStorage } from "./storage";
+import { createIpMatcher, getSubnet } from "./ip";
+import { createMetrics } from "./metrics";
+import type { RoutePattern } from "./patterns";
+import {
+	comparePatterns,
+	compilePattern,
+	coversPattern,
+	matchPattern,
+	normalizePath,
+} from "./patterns";
+import type { DatabaseStorage, KeyedLock } from "./storage";
 import {
 	createDatabaseStorage,
+	createFailoverStorage,
+	createHybridStorage,
+	createKeyedLock,
 	createMemoryStorage,
 	createSecondaryStorageWrapper,
+	RATE_LIMIT_STORAGE_VERSION,
+	setUnrefInterval,
 } from "./storage";
 import type {
 	CheckRateLimitResponse,
-	RateLimitEntry,
+	CleanupRateLimitsResponse,
+	RateLimitAlgorithm,
+	RateLimitEvent,
+	RateLimitLimitedEvent,
 	RateLimiterOptions,
+	RateLimitMetricsResponse,
+	RateLimitMode,
+	RateLimitPenalty,
 	RateLimitRule,
+	RateLimitRuleContext,
+	RateLimitSession,
+	RateLimitStorage,
+	RateLimitTierResult,
+	ListRateLimitsResponse,
+	RateLimitStatusResponse,
+	RateLimitValue,
+	RefundRateLimitResponse,
+	ResetRateLimitResponse,
 } from "./types";
 
+type ResolvedRateLimitRule = RateLimitRule & {
+	window: number;
+	max: number;
+	cost: number;
+};
+
+/**
+ * A limit of the matched rule together with the storage key it is counted
+ * under for the current requester.
+ */
+interface RateLimitTier {
+	key: string;
+	/**
+	 * Requester identifier without the path, e.g. `203.0.113.7` or
+	 * `user:<id>`.
+	 */
+	identifier: string;
+	algorithm: RateLimitAlgorithm;
+	config: AlgorithmConfig;
+	count: NonNullable<RateLimitRule["count"]>;
+	penalty: Required<RateLimitPenalty> | null;
+	/**
+	 * Units the current request consumes from this limit.
+	 */
+	cost: number;
+	mode: RateLimitMode;
+}
+
+interface ResolvedTiers {
+	/**
+	 * Pattern of the matched `customRules` entry, `null` for the default
+	 * limits.
+	 */
+	pattern: string | null;
+	limits: ResolvedRateLimitRule[];
+	tiers: RateLimitTier[];
+	/**
+	 * The requester is on the `denylist`.
+	 */
+	blocked?: boolean;
+}
+
+type TierResult = AlgorithmResult & {
+	window: number;
+	/**
+	 * Why the tier rejects the request, when it does.
+	 */
+	code: RateLimitLimitedEvent["code"];
+};
+
+interface CheckResult {
+	resolved: ResolvedTiers;
+	result: CheckRateLimitResponse;
+}
+
+interface CheckInput {
+	path: string;
+	/**
+	 * HTTP method of the request, matched against rules such as
+	 * `"POST /api/comments"`.
+	 */
+	method?: string;
+	/**
+	 * Body of the Better Auth request being enforced, used by `bodyField`.
+	 */
+	body?: unknown;
+	/**
+	 * Evaluate the request without consuming anything.
+	 */
+	peek?: boolean;
+	/**
+	 * Units the request consumes, overriding the `cost` of the rule.
+	 */
+	cost?: number;
+}
+
 declare module "@better-auth/core" {
 	interface BetterAuthPluginRegistry<AuthOptions, Options> {
 		"rate-limiter": {
@@ -43,122 +162,1213 @@ const rateLimitSchema = {
 				required: true,
 				defaultValue: () => Date.now(),
 			},
+			previousCount: {
+				type: "number",
+				required: false,
+				defaultValue: 0,
+			},
+			blockedUntil: {
+				type: "number",
+				bigint: true,
+				required: false,
+			},
+			/**
+			 * When the row can be deleted. `null` for rows written before
+			 * the column was added, which are cleaned up by their age.
+			 */
+			expiresAt: {
+				type: "number",
+				bigint: true,
+				required: false,
+				index: true,
+			},
 		},
 	},
 } satisfies BetterAuthPluginDBSchema;
 
-function matchPath(
-	pattern: string,
-	path: string,
-	cache: Map<string, RegExp>,
-): boolean {
-	if (!pattern.includes("*")) {
-		return pattern === path;
-	}
-	let regex = cache.get(pattern);
-	if (!regex) {
-		const regexStr = pattern
-			.split("**")
-			.map((segment) =>
-				segment
-					.split("*")
-					.map((s) => s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"))
-					.join("[^/]*"),
-			)
-			.join(".*");
-		regex = new RegExp(`^${regexStr}$`);
-		cache.set(pattern, regex);
-	}
-	return regex.test(path);
+interface RankedRule {
+	route: RoutePattern;
+	rule: RateLimitRule | RateLimitRule[] | false;
+	priority: number;
 }
 
-function shouldRateLimit(
-	max: number,
-	window: number,
-	data: RateLimitEntry,
-): boolean {
-	const now = Date.now();
-	const windowMs = window * 1000;
-	const timeSinceLastRequest = now - data.lastRequest;
-	return timeSinceLastRequest < windowMs && data.count >= max;
+interface MatchedRule {
+	pattern: string;
+	method: string | null;
+	rule: RateLimitRule | RateLimitRule[] | false;
 }
 
-function getRetryAfter(lastRequest: number, window: number): number {
-	const now = Date.now();
-	const windowMs = window * 1000;
-	return Math.ceil((lastRequest + windowMs - now) / 1000);
+/**
+ * Sorts `customRules` by precedence: higher `priority` first, then more
+ * specific patterns (a method counts as more specific than none), then
+ * declaration order.
+ */
+function rankRules(
+	customRules: RateLimiterOptions["customRules"],
+): RankedRule[] {
+	return Object.entries(customRules ?? {})
+		.map(([pattern, rule]) => ({
+			route: compilePattern(pattern),
+			rule,
+			priority:
+				rule === false
+					? 0
+					: Math.max(...[rule].flat().map((limit) => limit.priority ?? 0)),
+		}))
+		.sort(
+			(a, b) => b.priority - a.priority || comparePatterns(a.route, b.route),
+		);
+}
+
+/**
+ * Rules that never match because a rule ranked before them matches every
+ * path they match.
+ */
+function findUnreachableRules(
+	rules: RankedRule[],
+): { pattern: string; shadowedBy: string }[] {
+	return rules.flatMap(({ route }, index) => {
+		const shadowing = rules
+			.slice(0, index)
+			.find((other) => coversPattern(other.route, route));
+		return shadowing
+			? [{ pattern: route.pattern, shadowedBy: shadowing.route.pattern }]
+			: [];
+	});
 }
 
 function findMatchingRule(
 	path: string,
-	customRules: Record<string, RateLimitRule | false> | undefined,
-	cache: Map<string, RegExp>,
-): RateLimitRule | false | undefined {
-	if (!customRules) {
-		return undefined;
+	method: string | undefined,
+	rules: RankedRule[],
+): MatchedRule | undefined {
+	const matched = rules.find(({ route }) => matchPattern(route, path, method));
+	return (
+		matched && {
+			pattern: matched.route.pattern,
+			method: matched.route.method,
+			rule: matched.rule,
+		}
+	);
+}
+
+/**
+ * The part of the storage key naming what is limited. Rules limited to a
+ * method count each method separately, so the same path can have one
+ * limit for reads and another for writes.
+ */
+function getScope(path: string, matched: MatchedRule | undefined): string {
+	return matched?.method ? `${matched.method} ${path}` : path;
+}
+
+/**
+ * The full client address. Better Auth reduces IPv6 addresses to their /64
+ * subnet by default, grouping is applied through `ipv6Subnet` instead.
+ */
+function getClientIp(ctx: GenericEndpointContext): string | null {
+	const source = ctx.request ?? ctx.headers;
+	if (!source) {
+		return null;
 	}
-	const matchedKey = Object.keys(customRules).find((pattern) => {
-		return matchPath(pattern, path, cache);
+	const authOptions = ctx.context.options;
+	return getIp(source, {
+		...authOptions,
+		advanced: {
+			...authOptions.advanced,
+			ipAddress: { ...authOptions.advanced?.ipAddress, ipv6Subnet: 128 },
+		},
 	});
-	if (matchedKey !== undefined) {
-		return customRules[matchedKey];
+}
+
+interface IpSubnets {
+	ipv4Subnet: number;
+	ipv6Subnet: number;
+}
+
+function resolveSubnet(
+	value: number | undefined,
+	fallback: number,
+	maxPrefix: number,
+	option: string,
+): number {
+	const prefix = value ?? fallback;
+	if (!Number.isInteger(prefix) || prefix < 0 || prefix > maxPrefix) {
+		throw new BetterAuthError(
+			`Rate limiter "${option}" must be an integer between 0 and ${maxPrefix}`,
+		);
+	}
+	return prefix;
+}
+
+/**
+ * Longest static `window` of the default limits and `customRules`.
+ */
+function getLongestWindow(
+	defaultWindow: number,
+	customRules: RateLimiterOptions["customRules"],
+): number {
+	const windows = Object.values(customRules ?? {})
+		.flatMap((rule) => (rule === false ? [] : [rule].flat()))
+		.map((rule) => rule.window)
+		.filter((window): window is number => typeof window === "number");
+	return Math.max(defaultWindow, ...windows);
+}
+
+function checkStorageVersion(storage: RateLimitStorage) {
+	const version = storage.version ?? 1;
+	if (version !== RATE_LIMIT_STORAGE_VERSION) {
+		throw new BetterAuthError(
+			`Rate limiter storage implements version ${version} of RateLimitStorage, ` +
+				`but this version of the plugin requires version ${RATE_LIMIT_STORAGE_VERSION}`,
+		);
 	}
-	return undefined;
 }
 
 async function resolveIdentifier(
 	ctx: GenericEndpointContext,
 	detection: "ip" | "user" | "ip-and-user",
-	path: string,
+	getSession: () => Promise<RateLimitSession | null>,
+	subnets: IpSubnets,
 ): Promise<string | null> {
 	if (detection === "user" || detection === "ip-and-user") {
-		const session = await getSessionFromCtx(ctx).catch(() => null);
+		const session = await getSession();
 		if (session) {
-			return `user:${session.user.id}|${path}`;
+			return `user:${session.user.id}`;
 		}
 		if (detection === "user") {
 			return null;
 		}
 	}
 
-	const ip = getIp(ctx.request ?? ctx.headers!, ctx.context.options);
+	const ip = getClientIp(ctx);
 	if (!ip) {
 		return null;
 	}
-	return `${ip}|${path}`;
+	return getSubnet(ip, subnets) ?? ip;
+}
+
+/**
+ * The rejected tier that blocks the longest, or the allowed tier with the
+ * fewest requests remaining.
+ */
+function getMostRestrictiveTier<T extends AlgorithmResult>(tiers: T[]): T {
+	return tiers.reduce((current, tier) => {
+		if (tier.allowed !== current.allowed) {
+			return tier.allowed ? current : tier;
+		}
+		if (!tier.allowed) {
+			return (tier.retryAfter ?? 0) > (current.retryAfter ?? 0)
+				? tier
+				: current;
+		}
+		return tier.remaining < current.remaining ? tier : current;
+	});
+}
+
+/**
+ * Throws for a resolved `window`, `max` or `cost` that would disable the
+ * limit instead of enforcing it, e.g. a plan lookup returning `undefined`
+ * or a negative `cost` parsed from a client header, which would refund.
+ */
+function assertRuleValue(name: string, value: number, integer: boolean) {
+	if (
+		!Number.isFinite(value) ||
+		value <= 0 ||
+		(integer && !Number.isInteger(value))
+	) {
+		throw new BetterAuthError(
+			`Rate limiter rule "${name}" must resolve to a positive ` +
+				`${integer ? "integer" : "number"}, got ${value}`,
+		);
+	}
+}
+
+async function resolveLimit(
+	limit: RateLimitRule,
+	resolve: (value: RateLimitValue) => Promise<number>,
+): Promise<ResolvedRateLimitRule> {
+	const [window, max, cost] = await Promise.all([
+		resolve(limit.window),
+		resolve(limit.max),
+		resolve(limit.cost ?? 1),
+	]);
+	assertRuleValue("window", window, false);
+	assertRuleValue("max", max, true);
+	assertRuleValue("cost", cost, true);
+	return { ...limit, window, max, cost };
+}
+
+/**
+ * Normalizes identifiers like emails and phone numbers so that casing,
+ * Unicode variants and formatting do not produce separate buckets.
+ */
+function normalizeBodyValue(value: unknown): string | null {
+	if (typeof value !== "string" && typeof value !== "number") {
+		return null;
+	}
+	const normalized = String(value).normalize("NFKC").trim().toLowerCase();
+	if (/^\+?[\d\s().-]+$/.test(normalized)) {
+		return normalized.replace(/[^\d+]/g, "");
+	}
+	return normalized || null;
+}
+
+/**
+ * Hashes body values so that emails and phone numbers are not stored in
+ * plain text as part of storage keys.
+ */
+async function hashValue(value: string): Promise<string> {
+	const digest = await crypto.subtle.digest(
+		"SHA-256",
+		new TextEncoder().encode(value),
+	);
+	return Array.from(new Uint8Array(digest), (byte) =>
+		byte.toString(16).padStart(2, "0"),
+	).join("");
+}
+
+async function getBodyFieldIdentifier(
+	field: string,
+	value: unknown,
+): Promise<string | null> {
+	const normalized = normalizeBodyValue(value);
+	if (!normalized) {
+		return null;
+	}
+	return `body:${field}:${await hashValue(normalized)}`;
+}
+
+/**
+ * @param identifier - requester identifier including the path, e.g.
+ * `203.0.113.7|/api/search`
+ */
+function getStorageKey(
+	identifier: string,
+	index: number,
+	tierCount: number,
+): string {
+	return tierCount > 1 ? `rl:${identifier}#${index}` : `rl:${identifier}`;
+}
+
+function getPenaltyKey(key: string): string {
+	return `${key}:penalty`;
+}
+
+function getRateLimitHeaders(result: CheckRateLimitResponse): Headers {
+	const headers = new Headers({
+		"X-RateLimit-Limit": String(result.limit),
+		"X-RateLimit-Remaining": String(result.remaining),
+	});
+	if (result.resetAt) {
+		headers.set("X-RateLimit-Reset", String(Math.ceil(result.resetAt / 1000)));
+	}
+	if (result.retryAfter) {
+		headers.set("Retry-After", String(result.retryAfter));
+	}
+	return headers;
+}
+
+function getTtl(resetAt: number, now: number): number {
+	return Math.max(1, Math.ceil((resetAt - now) / 1000));
+}
+
+/**
+ * Whether an endpoint ended in an error response (status >= 400). Redirects
+ * are thrown as `APIError` too and count as successful.
+ */
+function isErrorResponse(returned: unknown): boolean {
+	if (isAPIError(returned)) {
+		return returned.statusCode >= 400;
+	}
+	if (returned instanceof Response) {
+		return returned.status >= 400;
+	}
+	return false;
+}
+
+function getEvent(
+	tier: RateLimitTier,
+	result: TierResult,
+	path: string,
+	pattern: string | null,
+): Omit<RateLimitEvent, "session"> {
+	return {
+		identifier: tier.identifier,
+		path,
+		pattern,
+		window: result.window,
+		limit: result.limit,
+		remaining: result.remaining,
+		retryAfter: result.retryAfter,
+	};
+}
+
+async function consume(
+	storage: RateLimitStorage,
+	withLock: KeyedLock,
+	key: string,
+	algorithm: RateLimitAlgorithm,
+	config: AlgorithmConfig,
+	cost: number,
+): Promise<AlgorithmResult> {
+	if (algorithm === "fixed-window") {
+		const windowMs = config.window * 1000;
+		const entry = await storage.increment(key, windowMs, cost);
+		const result = getFixedWindowResult(entry, config, Date.now(), cost);
+		// A rejected request that did not fit into the remaining units gives
+		// them back, so that cheaper requests can still use them. Concurrent
+		// requests may briefly see the inflated count and be rejected too.
+		if (!result.allowed && entry.count - cost < config.max) {
+			await storage.increment(key, windowMs, -cost);
+		}
+		return result;
+	}
+	return withLock(key, async () => {
+		const data = await storage.get(key);
+		const now = Date.now();
+		const result = RATE_LIMIT_ALGORITHMS[algorithm].consume(
+			data,
+			config,
+			now,
+			cost,
+		);
+		if (result.entry) {
+			await storage.set(
+				key,
+				{ key, ...result.entry },
+				data !== null,
+				getTtl(result.resetAt, now),
+			);
+		}
+		return result;
+	});
+}
+
+function resolvePenalty(
+	penalty: RateLimitPenalty | false | undefined,
+): Required<RateLimitPenalty> | null {
+	if (!penalty) {
+		return null;
+	}
+	return {
+		threshold: penalty.threshold ?? 3,
+		lookback: penalty.lookback ?? 3600,
+		duration: penalty.duration ?? 60,
+		multiplier: penalty.multiplier ?? 2,
+		maxDuration: penalty.maxDuration ?? 86400,
+	};
+}
+
+/**
+ * Rejection of a tier whose requester is locked out until `blockedUntil`.
+ */
+function getLockedOutResult(
+	config: AlgorithmConfig,
+	blockedUntil: number,
+): TierResult {
+	return {
+		allowed: false,
+		limit: config.max,
+		remaining: 0,
+		resetAt: blockedUntil,
+		retryAfter: Math.max(1, Math.ceil((blockedUntil - Date.now()) / 1000)),
+		entry: null,
+		window: config.window,
+		code: "LOCKED_OUT",
+	};
+}
+
+/**
+ * Result of a tier whose storage failed: a fresh window when failing open,
+ * a rejection when failing closed.
+ */
+function getStorageFailureResult(
+	config: AlgorithmConfig,
+	allow: boolean,
+): TierResult {
+	return {
+		allowed: allow,
+		limit: config.max,
+		remaining: allow ? config.max : 0,
+		resetAt: Date.now() + config.window * 1000,
+		entry: null,
+		window: config.window,
+		code: "STORAGE_UNAVAILABLE",
+	};
+}
+
+/**
+ * Counts a violation towards the penalty stored under `key` and returns when
+ * the resulting lockout ends, or `null` when it does not trigger one.
+ */
+async function recordViolation(
+	storage: RateLimitStorage,
+	withLock: KeyedLock,
+	key: string,
+	penalty: Required<RateLimitPenalty>,
+): Promise<number | null> {
+	return withLock(key, async () => {
+		const lookbackMs = penalty.lookback * 1000;
+		const entry = await storage.increment(key, lookbackMs);
+		if (entry.count % penalty.threshold !== 0) {
+			return null;
+		}
+		const lockouts = entry.count / penalty.threshold - 1;
+		const duration = Math.min(
+			penalty.maxDuration,
+			penalty.duration * penalty.multiplier ** lockouts,
+		);
+		const now = Date.now();
+		const blockedUntil = now + duration * 1000;
+		await storage.set(
+			key,
+			{ ...entry, blockedUntil },
+			true,
+			getTtl(Math.max(blockedUntil, entry.lastRequest + lookbackMs), now),
+		);
+		return blockedUntil;
+	});
+}
+
+/**
+ * Evaluates a request of `cost` units like {@link consume} without storing
+ * anything. `remaining` reports the units currently available rather than
+ * what would be left after the request.
+ */
+async function peek(
+	storage: RateLimitStorage,
+	key: string,
+	algorithm: RateLimitAlgorithm,
+	config: AlgorithmConfig,
+	cost: number,
+): Promise<AlgorithmResult> {
+	const data = await storage.get(key);
+	const now = Date.now();
+	const evaluate = (units: number) => {
+		if (algorithm !== "fixed-window") {
+			return RATE_LIMIT_ALGORITHMS[algorithm].consume(data, config, now, units);
+		}
+		const current =
+			data && now - data.lastRequest < config.window * 1000
+				? data
+				: { key, count: 0, lastRequest: now };
+		return getFixedWindowResult(
+			{ ...current, count: current.count + units },
+			config,
+			now,
+			units,
+		);
+	};
+	return { ...evaluate(cost), remaining: evaluate(0).remaining };
+}
+
+/**
+ * Gives back `cost` units previously taken by {@link consume}.
+ */
+async function refund(
+	storage: RateLimitStorage,
+	withLock: KeyedLock,
+	key: string,
+	algorithm: RateLimitAlgorithm,
+	config: AlgorithmConfig,
+	cost: number,
+): Promise<void> {
+	if (algorithm === "fixed-window") {
+		await storage.increment(key, config.window * 1000, -cost);
+		return;
+	}
+	await withLock(key, async () => {
+		const data = await storage.get(key);
+		if (!data) {
+			return;
+		}
+		const now = Date.now();
+		const result = RATE_LIMIT_ALGORITHMS[algorithm].refund(
+			data,
+			config,
+			now,
+			cost,
+		);
+		if (result) {
+			await storage.set(
+				key,
+				{ key, ...result.entry },
+				true,
+				getTtl(result.resetAt, now),
+			);
+		}
+	});
 }
 
 export const rateLimiter = (options?: RateLimiterOptions) => {
 	const defaultWindow = options?.window ?? 60;
 	const defaultMax = options?.max ?? 100;
-	const storageType = options?.storage ?? "memory";
+	const storageOption = options?.storage ?? "memory";
+	const customStorage =
+		typeof storageOption === "object" ? storageOption : null;
+	const storageType =
+		typeof storageOption === "object" ? "custom" : storageOption;
+	/**
+	 * Where limits are stored, or shared in the background for `"hybrid"`.
+	 */
+	const backendType =
+		storageType === "hybrid"
+			? (options?.hybrid?.backend ?? "secondary-storage")
+			: storageType;
+	if (customStorage) {
+		checkStorageVersion(customStorage);
+	}
 	const customRules = options?.customRules;
 	const detection = options?.detection ?? "ip";
+	const defaultAlgorithm = options?.algorithm ?? "fixed-window";
+	const enforce = options?.enforce ?? false;
+	const defaultMode = options?.mode ?? "enforce";
+	const onStorageFailure = options?.onStorageFailure ?? "allow";
+	const subnets: IpSubnets = {
+		ipv4Subnet: resolveSubnet(options?.ipv4Subnet, 32, 32, "ipv4Subnet"),
+		ipv6Subnet: resolveSubnet(options?.ipv6Subnet, 64, 128, "ipv6Subnet"),
+	};
+	const isAllowlisted = options?.allowlist?.length
+		? createIpMatcher(options.allowlist, "allowlist")
+		: null;
+	const isAdmin =
+		options?.isAdmin ??
+		((session: RateLimitSession) => session.user.role === "admin");
+	const isDenylisted = options?.denylist?.length
+		? createIpMatcher(options.denylist, "denylist")
+		: null;
 
+	/**
+	 * The storage for `"memory"`, and the circuit breaker fallback for the
+	 * other backends.
+	 */
+	const memoryStorage = createMemoryStorage(options?.memory);
 	let storage: RateLimitStorage =
 		storageType === "memory"
-			? createMemoryStorage(defaultWindow)
+			? memoryStorage
 			: (null as unknown as RateLimitStorage);
+	let databaseStorage: DatabaseStorage | null = null;
+	const cleanupOptions = {
+		batchSize: options?.database?.cleanupBatchSize ?? 1000,
+		// Rows from before `expiresAt` existed were written by fixed windows
+		// of the configured lengths.
+		legacyMaxAge: getLongestWindow(defaultWindow, customRules) * 1000,
+	};
+
+	const rankedRules = rankRules(customRules);
+	const pathOptions = options?.paths;
+	const normalize = (path: string) =>
+		pathOptions === false ? path : normalizePath(path, pathOptions);
+	const enforcePatterns = Array.isArray(enforce)
+		? enforce.map(compilePattern)
+		: [];
+	const metrics = createMetrics(
+		storageType,
+		() => memoryStorage.getStats(),
+		options?.metrics?.buckets,
+	);
+	const withLock = createKeyedLock();
+	const requestCache = new WeakMap<object, Map<unknown, Promise<unknown>>>();
+	/**
+	 * `count: "failed"` tiers consumed by the before hook, keyed by the auth
+	 * context of the call (shared between its before and after hooks).
+	 */
+	const pendingRefunds = new WeakMap<object, RateLimitTier[]>();
+
+	/**
+	 * Memoizes `fn` for the incoming request, so the session lookup and
+	 * dynamic limits are resolved once even when checked from both a hook and
+	 * an endpoint.
+	 */
+	function memoizePerRequest<T>(
+		ctx: GenericEndpointContext,
+		key: unknown,
+		fn: () => Promise<T>,
+	): Promise<T> {
+		const source = ctx.request ?? ctx.headers;
+		if (!source) {
+			return fn();
+		}
+		let cache = requestCache.get(source);
+		if (!cache) {
+			cache = new Map();
+			requestCache.set(source, cache);
+		}
+		let value = cache.get(key) as Promise<T> | undefined;
+		if (!value) {
+			value = fn();
+			cache.set(key, value);
+		}
+		return value;
+	}
+
+	function getSession(
+		ctx: GenericEndpointContext,
+	): Promise<RateLimitSession | null> {
+		return memoizePerRequest(ctx, getSessionFromCtx, () =>
+			getSessionFromCtx(ctx).catch(() => null),
+		);
+	}
 
-	const patternCache = new Map<string, RegExp>();
+	/**
+	 * Resolves the limits of the rule matching `input.path` and the key each
+	 * one is counted under. Limits without an identifier for this requester
+	 * are left out of `tiers`.
+	 *
+	 * Allowlisted requesters resolve to no limits, denylisted ones to
+	 * `blocked`.
+	 */
+	async function resolveTiers(
+		ctx: GenericEndpointContext,
+		input: CheckInput,
+	): Promise<ResolvedTiers> {
+		const { path, method, body, cost } = input;
+
+		const matched = findMatchingRule(path, method, rankedRules);
+		const scope = getScope(path, matched);
+		const pattern = matched?.pattern ?? null;
+		const rule = matched?.rule;
+
+		if (isAllowlisted || isDenylisted) {
+			const ip = getClientIp(ctx);
+			if (ip && isDenylisted?.(ip)) {
+				return { pattern, limits: [], tiers: [], blocked: true };
+			}
+			if (ip && isAllowlisted?.(ip)) {
+				return { pattern, limits: [], tiers: [] };
+			}
+		}
+
+		if (rule === false) {
+			return { pattern, limits: [], tiers: [] };
+		}
+
+		let ruleContext: Promise<RateLimitRuleContext> | undefined;
+		const getRuleContext = () => {
+			ruleContext ??= getSession(ctx).then((session) => ({
+				session,
+				path,
+				method,
+				body,
+				request: ctx.request,
+				headers: ctx.headers,
+			}));
+			return ruleContext;
+		};
+		const resolveValue = async (value: RateLimitValue) => {
+			if (typeof value === "number") {
+				return value;
+			}
+			return memoizePerRequest(ctx, value, async () =>
+				value(await getRuleContext()),
+			);
+		};
+
+		let detected: Promise<string | null> | undefined;
+		const resolveKey = async (limit: ResolvedRateLimitRule) => {
+			if (limit.bodyField) {
+				const identifier = await getBodyFieldIdentifier(
+					limit.bodyField,
+					(body as Record<string, unknown> | undefined)?.[limit.bodyField],
+				);
+				return identifier;
+			}
+			const keyGenerator = limit.keyGenerator ?? options?.keyGenerator;
+			if (keyGenerator) {
+				const key = await keyGenerator(await getRuleContext());
+				if (key) {
+					return `key:${key}`;
+				}
+			}
+			detected ??= resolveIdentifier(
+				ctx,
+				detection,
+				() => getSession(ctx),
+				subnets,
+			);
+			return detected;
+		};
+
+		const limits = await Promise.all(
+			(Array.isArray(rule)
+				? rule
+				: [rule ?? { window: defaultWindow, max: defaultMax }]
+			).map((limit) => resolveLimit(limit, resolveValue)),
+		);
+
+		const tiers = (
+			await Promise.all(
+				limits.map(async (limit, index): Promise<RateLimitTier | null> => {
+					const identifier = await resolveKey(limit);
+					if (!identifier) {
+						return null;
+					}
+					return {
+						key: getStorageKey(`${identifier}|${scope}`, index, limits.length),
+						identifier,
+						algorithm: limit.algorithm ?? defaultAlgorithm,
+						config: {
+							window: limit.window,
+							max: limit.max,
+							refillRate: limit.refillRate ?? options?.refillRate,
+							burst: limit.burst ?? options?.burst,
+						},
+						count: limit.count ?? "all",
+						penalty: resolvePenalty(limit.penalty ?? options?.penalty),
+						cost: cost ?? limit.cost,
+						mode: limit.mode ?? defaultMode,
+					};
+				}),
+			)
+		).filter((tier) => tier !== null);
+
+		return { pattern, limits, tiers };
+	}
+
+	/**
+	 * Consumes the cost of the request from `tier`, unless its requester is
+	 * locked out by a penalty.
+	 */
+	async function consumeTier(
+		tier: RateLimitTier,
+		dryRun: boolean,
+	): Promise<TierResult> {
+		const { key, algorithm, config, penalty, cost } = tier;
+		const penaltyKey = getPenaltyKey(key);
+		if (penalty) {
+			const blockedUntil = (await storage.get(penaltyKey))?.blockedUntil;
+			if (blockedUntil && blockedUntil > Date.now()) {
+				return getLockedOutResult(config, blockedUntil);
+			}
+		}
+
+		if (dryRun) {
+			const result = await peek(storage, key, algorithm, config, cost);
+			return { window: config.window, code: "RATE_LIMITED", ...result };
+		}
+
+		const result = await consume(
+			storage,
+			withLock,
+			key,
+			algorithm,
+			config,
+			cost,
+		);
+		if (!result.allowed && penalty) {
+			const blockedUntil = await recordViolation(
+				storage,
+				withLock,
+				penaltyKey,
+				penalty,
+			);
+			if (blockedUntil) {
+				return getLockedOutResult(config, blockedUntil);
+			}
+		}
+		return { window: config.window, code: "RATE_LIMITED", ...result };
+	}
+
+	/**
+	 * Calls the `name` callback with `events`, adding the requester's
+	 * session. Errors thrown by the callback are logged and do not fail the
+	 * request.
+	 */
+	async function emit<T extends { session: RateLimitSession | null }>(
+		ctx: GenericEndpointContext,
+		name: string,
+		callback: ((event: T) => void | Promise<void>) | undefined,
+		events: Omit<T, "session">[],
+	): Promise<void> {
+		if (!callback || events.length === 0) {
+			return;
+		}
+		const session = await getSession(ctx);
+		await Promise.all(
+			events.map(async (event) => {
+				try {
+					await callback({ ...event, session } as T);
+				} catch (e) {
+					ctx.context.logger.error(`Error in rate limiter ${name}`, e);
+				}
+			}),
+		);
+	}
+
+	/**
+	 * Consumes the request from every tier (or only evaluates it with
+	 * `peek`) and reports the most restrictive one. Tiers in shadow mode
+	 * never reject the request, only flag `wouldHaveBeenLimited`.
+	 */
+	async function consumeTiers(
+		ctx: GenericEndpointContext,
+		resolved: ResolvedTiers,
+		{ path, peek = false }: Pick<CheckInput, "path" | "peek">,
+	): Promise<CheckRateLimitResponse> {
+		const { pattern, limits, tiers, blocked } = resolved;
+		if (blocked) {
+			return {
+				success: false,
+				limit: 0,
+				remaining: 0,
+				message: RATE_LIMITER_ERROR_CODES.BLOCKED.message,
+				code: RATE_LIMITER_ERROR_CODES.BLOCKED.code,
+			};
+		}
+
+		if (limits.length === 0) {
+			return {
+				success: true,
+				limit: 0,
+				remaining: 0,
+			};
+		}
+
+		if (tiers.length === 0) {
+			return {
+				success: true,
+				limit: limits[0]!.max,
+				remaining: limits[0]!.max,
+			};
+		}
+
+		const results = await Promise.all(
+			tiers.map((tier) =>
+				consumeTier(tier, peek).catch(async (error: unknown) => {
+					metrics.recordStorageError(pattern);
+					await emit(ctx, "onStorageError", options?.onStorageError, [
+						{ error, identifier: tier.identifier, path, pattern },
+					]);
+					return getStorageFailureResult(
+						tier.config,
+						onStorageFailure === "allow",
+					);
+				}),
+			),
+		);
+		if (!peek) {
+			await emit(
+				ctx,
+				"onShadowLimited",
+				options?.onShadowLimited,
+				tiers.flatMap((tier, index) =>
+					tier.mode === "shadow" && !results[index]!.allowed
+						? [getEvent(tier, results[index]!, path, pattern)]
+						: [],
+				),
+			);
+		}
+
+		const enforced = results.filter(
+			(_, index) => tiers[index]!.mode === "enforce",
+		);
+		const rejected = enforced.some((tier) => !tier.allowed);
+		const result = getMostRestrictiveTier(rejected ? enforced : results);
+		const tierResults =
+			limits.length > 1
+				? results.map(
+						(tier, index): RateLimitTierResult => ({
+							success: tier.allowed,
+							window: tier.window,
+							limit: tier.limit,
+							remaining: tier.remaining,
+							cost: tiers[index]!.cost,
+							resetAt: tier.resetAt,
+							retryAfter: tier.retryAfter,
+						}),
+					)
+				: undefined;
+		const reported = tiers[results.indexOf(result)]!;
+		const event = getEvent(reported, result, path, pattern);
+
+		if (!result.allowed) {
+			const error = RATE_LIMITER_ERROR_CODES[result.code];
+			if (!rejected) {
+				if (!peek) {
+					await emit(ctx, "onAllowed", options?.onAllowed, [event]);
+				}
+				return {
+					success: true,
+					wouldHaveBeenLimited: true,
+					limit: result.limit,
+					remaining: result.remaining,
+					cost: reported.cost,
+					retryAfter: result.retryAfter,
+					resetAt: result.resetAt,
+					code: error.code,
+					tiers: tierResults,
+				};
+			}
+			if (!peek) {
+				await emit(ctx, "onLimited", options?.onLimited, [
+					{ ...event, code: error.code },
+				]);
+			}
+			return {
+				success: false,
+				limit: result.limit,
+				remaining: result.remaining,
+				cost: reported.cost,
+				retryAfter: result.retryAfter,
+				resetAt: result.resetAt,
+				message: error.message,
+				code: error.code,
+				tiers: tierResults,
+			};
+		}
+
+		if (!peek) {
+			await emit(ctx, "onAllowed", options?.onAllowed, [event]);
+		}
+		return {
+			success: true,
+			limit: result.limit,
+			remaining: result.remaining,
+			cost: reported.cost,
+			resetAt: result.resetAt,
+			tiers: tierResults,
+		};
+	}
+
+	/**
+	 * Resolves and consumes the limits of `input.path`, recording the check
+	 * in the metrics.
+	 */
+	async function checkRateLimit(
+		ctx: GenericEndpointContext,
+		input: CheckInput,
+	): Promise<CheckResult> {
+		const start = performance.now();
+		const checked = { ...input, path: normalize(input.path) };
+		let pattern: string | null = null;
+		let outcome: "allowed" | "limited" | "error" = "error";
+		try {
+			const resolved = await resolveTiers(ctx, checked);
+			pattern = resolved.pattern;
+			const result = await consumeTiers(ctx, resolved, checked);
+			outcome = result.success ? "allowed" : "limited";
+			return { resolved, result };
+		} finally {
+			if (!input.peek) {
+				const seconds = (performance.now() - start) / 1000;
+				metrics.recordCheck(pattern, outcome, seconds);
+			}
+		}
+	}
+
+	async function refundTiers(tiers: RateLimitTier[]): Promise<void> {
+		await Promise.all(
+			tiers.map((tier) =>
+				refund(
+					storage,
+					withLock,
+					tier.key,
+					tier.algorithm,
+					tier.config,
+					tier.cost,
+				),
+			),
+		);
+	}
+
+	/**
+	 * Deletes expired rows every `interval` milliseconds, skipping a run
+	 * while the previous one is still going.
+	 */
+	function scheduleCleanup(
+		database: DatabaseStorage,
+		interval: number,
+		logger: AuthContext["logger"],
+	) {
+		let running = false;
+		setUnrefInterval(async () => {
+			if (running) {
+				return;
+			}
+			running = true;
+			try {
+				await database.cleanup(cleanupOptions);
+			} catch (e) {
+				logger.error("Error cleaning up expired rate limits", e);
+			} finally {
+				running = false;
+			}
+		}, interval);
+	}
+
+	async function assertAdmin(session: RateLimitSession): Promise<void> {
+		if (!(await isAdmin(session))) {
+			throw new APIError("FORBIDDEN", {
+				message:
+					RATE_LIMITER_ERROR_CODES.NOT_ALLOWED_TO_MANAGE_RATE_LIMITS.message,
+				code: RATE_LIMITER_ERROR_CODES.NOT_ALLOWED_TO_MANAGE_RATE_LIMITS.code,
+			});
+		}
+	}
+
+	/**
+	 * Storage keys of every limit (and its penalty) of the rule matching
+	 * `method` and `path` for `identifier`: an IP address, `user:<id>`,
+	 * `key:<key>` or `body:<field>:<value>`.
+	 */
+	async function getStorageKeys(
+		identifier: string,
+		path: string,
+		method?: string,
+	): Promise<string[]> {
+		const normalized = normalize(path);
+		const matched = findMatchingRule(normalized, method, rankedRules);
+		const rule = matched?.rule;
+		if (rule === false) {
+			return [];
+		}
+		let resolved = getSubnet(identifier, subnets) ?? identifier;
+		if (identifier.startsWith("body:")) {
+			const [, field = "", ...value] = identifier.split(":");
+			resolved =
+				(await getBodyFieldIdentifier(field, value.join(":"))) ?? identifier;
+		}
+		const tierCount = Array.isArray(rule) ? rule.length : 1;
+		return Array.from({ length: tierCount }, (_, index) =>
+			getStorageKey(
+				`${resolved}|${getScope(normalized, matched)}`,
+				index,
+				tierCount,
+			),
+		).flatMap((key) => [key, getPenaltyKey(key)]);
+	}
+
+	function shouldEnforce(
+		path: string | undefined,
+		method: string | undefined,
+	): boolean {
+		if (!enforce || !path || path.startsWith("/rate-limiter/")) {
+			return false;
+		}
+		if (enforce === true) {
+			return true;
+		}
+		return enforcePatterns.some((route) => matchPattern(route, path, method));
+	}
 
 	return {
 		id: "rate-limiter" as const,
-		...(storageType === "database" ? { schema: rateLimitSchema } : {}),
+		...(backendType === "database" ? { schema: rateLimitSchema } : {}),
+		...(enforce
+			? {
+					hooks: {
+						before: [
+							{
+								matcher: (context) =>
+									shouldEnforce(
+										context.path,
+										context.request?.method ?? context.method,
+									),
+								handler: createAuthMiddleware(async (ctx) => {
+									const { resolved, result } = await checkRateLimit(
+										ctx as GenericEndpointContext,
+										{
+											path: ctx.path,
+											method: ctx.request?.method ?? ctx.method,
+											body: ctx.body,
+										},
+									);
+									if (resolved.blocked) {
+										throw new APIError("FORBIDDEN", {
+											message: RATE_LIMITER_ERROR_CODES.BLOCKED.message,
+											code: RATE_LIMITER_ERROR_CODES.BLOCKED.code,
+										});
+									}
+									if (!result.success) {
+										const error =
+											RATE_LIMITER_ERROR_CODES[result.code ?? "RATE_LIMITED"];
+										throw new APIError(
+											result.code === "STORAGE_UNAVAILABLE"
+												? "SERVICE_UNAVAILABLE"
+												: "TOO_MANY_REQUESTS",
+											{ message: error.message, code: error.code },
+											getRateLimitHeaders(result),
+										);
+									}
+									const failedOnly = resolved.tiers.filter(
+										(tier) => tier.count === "failed",
+									);
+									if (failedOnly.length > 0) {
+										pendingRefunds.set(ctx.context, failedOnly);
+									}
+								}),
+							},
+						],
+						after: [
+							{
+								matcher: (context) =>
+									shouldEnforce(
+										context.path,
+										context.request?.method ?? context.method,
+									),
+								handler: createAuthMiddleware(async (ctx) => {
+									const tiers = pendingRefunds.get(ctx.context);
+									if (!tiers) {
+										return;
+									}
+									pendingRefunds.delete(ctx.context);
+									if (isErrorResponse(ctx.context.returned)) {
+										return;
+									}
+									// A failed refund must not fail a successful request.
+									await refundTiers(tiers).catch((e) => {
+										ctx.context.logger.error("Error refunding rate limit", e);
+									});
+								}),
+							},
+						],
+					},
+				}
+			: {}),
 		init(ctx) {
+			for (const { pattern, shadowedBy } of findUnreachableRules(rankedRules)) {
+				ctx.logger.warn(
+					`Rate limiter rule "${pattern}" is unreachable: "${shadowedBy}" ` +
+						"takes precedence for every path it matches.",
+				);
+			}
 			if (
-				storageType === "secondary-storage" &&
+				backendType === "secondary-storage" &&
 				!ctx.options.secondaryStorage
 			) {
 				ctx.logger.error(
-					'Rate limiter plugin is configured with storage: "secondary-storage" ' +
+					`Rate limiter plugin is configured with storage: "${storageType}" ` +
 						"but no secondaryStorage is configured in the auth options.",
 				);
 			}
-			if (storageType === "database") {
-				storage = createDatabaseStorage(ctx);
-			} else if (storageType === "secondary-storage") {
-				storage = createSecondaryStorageWrapper(ctx, defaultWindow);
+			if (backendType === "memory") {
+				return;
+			}
+			if (backendType === "database") {
+				databaseStorage = createDatabaseStorage(ctx);
+				const cleanupInterval = options?.database?.cleanupInterval ?? 3_600_000;
+				if (cleanupInterval !== false) {
+					scheduleCleanup(databaseStorage, cleanupInterval, ctx.logger);
+				}
+			}
+			const circuitBreaker = options?.circuitBreaker;
+			const { threshold = 5, cooldown = 30 } = circuitBreaker || {};
+			storage = createFailoverStorage(
+				customStorage ?? databaseStorage ?? createSecondaryStorageWrapper(ctx),
+				memoryStorage,
+				{
+					timeout: options?.storageTimeout ?? 1000,
+					threshold: circuitBreaker === false ? null : threshold,
+					cooldown: cooldown * 1000,
+				},
+				ctx.logger,
+			);
+			if (storageType === "hybrid") {
+				storage = createHybridStorage(
+					storage,
+					{ syncInterval: options?.hybrid?.syncInterval ?? 1000 },
+					ctx.logger,
+				);
 			}
 		},
 		endpoints: {
@@ -168,103 +1378,199 @@ export const rateLimiter = (options?: RateLimiterOptions) => {
 					method: "POST",
 					body: z.object({
 						path: z.string(),
+						method: z.string().optional(),
+						peek: z.boolean().optional(),
+						cost: z.number().int().min(1).optional(),
 					}),
 					metadata: {
 						openapi: {
 							operationId: "checkRateLimit",
 							description:
-								"Check rate limit for a given path. Returns whether the request is allowed and remaining quota.",
+								"Check rate limit for a given path and method. Consumes `cost` units (the rule's cost by default) and returns whether the request is allowed and remaining quota. With `peek`, reports whether the request would be allowed without consuming it.",
 						},
 					},
 				},
 				async (ctx): Promise<CheckRateLimitResponse> => {
-					const path = ctx.body.path;
-
-					const rule = findMatchingRule(path, customRules, patternCache);
-
-					if (rule === false) {
-						return {
-							success: true,
-							limit: 0,
-							remaining: 0,
-						};
-					}
-
-					const currentWindow = rule?.window ?? defaultWindow;
-					const currentMax = rule?.max ?? defaultMax;
-					const windowMs = currentWindow * 1000;
-
-					const identifier = await resolveIdentifier(
+					const { result } = await checkRateLimit(
 						ctx as GenericEndpointContext,
-						detection,
-						path,
+						{ ...ctx.body, method: ctx.body.method ?? ctx.request?.method },
 					);
-
-					if (!identifier) {
-						return {
-							success: true,
-							limit: currentMax,
-							remaining: currentMax,
-						};
-					}
-
-					const storageKey = `rl:${identifier}`;
-					const data = await storage.get(storageKey);
-					const now = Date.now();
-
-					if (data && shouldRateLimit(currentMax, currentWindow, data)) {
-						const retryAfter = getRetryAfter(data.lastRequest, currentWindow);
-						return {
-							success: false,
-							limit: currentMax,
-							remaining: 0,
-							retryAfter,
-							resetAt: data.lastRequest + windowMs,
-							message: RATE_LIMITER_ERROR_CODES.RATE_LIMITED.message,
-						};
-					}
-
-					if (!data) {
-						await storage.set(storageKey, {
-							key: storageKey,
-							count: 1,
-							lastRequest: now,
+					return result;
+				},
+			),
+			getRateLimitStatus: createAuthEndpoint(
+				"/rate-limiter/status",
+				{
+					method: "GET",
+					query: z.object({
+						identifier: z.string(),
+						path: z.string(),
+						method: z.string().optional(),
+					}),
+					use: [sessionMiddleware],
+					metadata: {
+						openapi: {
+							operationId: "getRateLimitStatus",
+							description:
+								"Get the stored rate limit state of an identifier for a path. Requires an admin session.",
+						},
+					},
+				},
+				async (ctx): Promise<RateLimitStatusResponse> => {
+					await assertAdmin(ctx.context.session);
+					const keys = await getStorageKeys(
+						ctx.query.identifier,
+						ctx.query.path,
+						ctx.query.method,
+					);
+					const entries = await Promise.all(
+						keys.map((key) => storage.get(key)),
+					);
+					return { entries: entries.filter((entry) => entry !== null) };
+				},
+			),
+			resetRateLimit: createAuthEndpoint(
+				"/rate-limiter/reset",
+				{
+					method: "POST",
+					body: z.object({
+						identifier: z.string(),
+						path: z.string(),
+						method: z.string().optional(),
+					}),
+					use: [sessionMiddleware],
+					metadata: {
+						openapi: {
+							operationId: "resetRateLimit",
+							description:
+								"Clear the rate limit state and lockouts of an identifier for a path. Requires an admin session.",
+						},
+					},
+				},
+				async (ctx): Promise<ResetRateLimitResponse> => {
+					await assertAdmin(ctx.context.session);
+					const keys = await getStorageKeys(
+						ctx.body.identifier,
+						ctx.body.path,
+						ctx.body.method,
+					);
+					await Promise.all(keys.map((key) => storage.delete(key)));
+					return { success: true };
+				},
+			),
+			listRateLimits: createAuthEndpoint(
+				"/rate-limiter/list",
+				{
+					method: "GET",
+					query: z.object({
+						prefix: z.string().optional(),
+						limit: z.coerce.number().int().min(1).max(1000).optional(),
+						offset: z.coerce.number().int().min(0).optional(),
+					}),
+					use: [sessionMiddleware],
+					metadata: {
+						openapi: {
+							operationId: "listRateLimits",
+							description:
+								"List stored rate limit entries, optionally filtered by identifier prefix. Requires an admin session.",
+						},
+					},
+				},
+				async (ctx): Promise<ListRateLimitsResponse> => {
+					await assertAdmin(ctx.context.session);
+					if (!storage.list) {
+						throw new APIError("BAD_REQUEST", {
+							message: RATE_LIMITER_ERROR_CODES.LIST_NOT_SUPPORTED.message,
+							code: RATE_LIMITER_ERROR_CODES.LIST_NOT_SUPPORTED.code,
 						});
-						return {
-							success: true,
-							limit: currentMax,
-							remaining: currentMax - 1,
-							resetAt: now + windowMs,
-						};
 					}
-
-					const timeSinceLastRequest = now - data.lastRequest;
-
-					if (timeSinceLastRequest > windowMs) {
-						await storage.set(
-							storageKey,
-							{ ...data, count: 1, lastRequest: now },
-							true,
-						);
-						return {
-							success: true,
-							limit: currentMax,
-							remaining: currentMax - 1,
-							resetAt: now + windowMs,
-						};
+					const entries = await storage.list({
+						prefix: `rl:${ctx.query.prefix ?? ""}`,
+						limit: ctx.query.limit ?? 100,
+						offset: ctx.query.offset ?? 0,
+					});
+					return { entries };
+				},
+			),
+			refundRateLimit: createAuthEndpoint(
+				"/rate-limiter/refund",
+				{
+					method: "POST",
+					body: z.object({
+						path: z.string(),
+						method: z.string().optional(),
+						cost: z.number().int().min(1).optional(),
+					}),
+					metadata: {
+						SERVER_ONLY: true,
+					},
+				},
+				async (ctx): Promise<RefundRateLimitResponse> => {
+					const { tiers } = await resolveTiers(ctx as GenericEndpointContext, {
+						...ctx.body,
+						path: normalize(ctx.body.path),
+						method: ctx.body.method ?? ctx.request?.method,
+					});
+					await refundTiers(tiers);
+					return { success: true };
+				},
+			),
+			cleanupRateLimits: createAuthEndpoint(
+				"/rate-limiter/cleanup",
+				{
+					method: "POST",
+					metadata: {
+						SERVER_ONLY: true,
+					},
+				},
+				async (): Promise<CleanupRateLimitsResponse> => {
+					if (!databaseStorage) {
+						throw new APIError("BAD_REQUEST", {
+							message: RATE_LIMITER_ERROR_CODES.CLEANUP_NOT_SUPPORTED.message,
+							code: RATE_LIMITER_ERROR_CODES.CLEANUP_NOT_SUPPORTED.code,
+						});
 					}
-
-					const newCount = data.count + 1;
-					await storage.set(storageKey, { ...data, count: newCount }, true);
-
-					return {
-						success: true,
-						limit: currentMax,
-						remaining: Math.max(0, currentMax - newCount),
-						resetAt: data.lastRequest + windowMs,
-					};
+					const deleted = await databaseStorage.cleanup(cleanupOptions);
+					return { deleted };
 				},
 			),
+			getRateLimitMetrics: createAuthEndpoint(
+				"/rate-limiter/get-metrics",
+				{
+					method: "GET",
+					metadata: {
+						SERVER_ONLY: true,
+					},
+				},
+				async (): Promise<RateLimitMetricsResponse> => {
+					return metrics.getSnapshot();
+				},
+			),
+			...(options?.metrics?.endpoint
+				? {
+						rateLimitMetrics: createAuthEndpoint(
+							"/rate-limiter/metrics",
+							{
+								method: "GET",
+								metadata: {
+									isAction: false,
+									openapi: {
+										operationId: "rateLimitMetrics",
+										description:
+											"Rate limit metrics in the Prometheus text exposition format.",
+									},
+								},
+							},
+							async () => {
+								return new Response(metrics.toPrometheus(), {
+									headers: {
+										"content-type": "text/plain; version=0.0.4; charset=utf-8",
+									},
+								});
+							},
+						),
+					}
+				: {}),
 		},
 		$ERROR_CODES: RATE_LIMITER_ERROR_CODES,
 	} satisfies BetterAuthPlugin;
@@ -272,4 +1578,5 @@ export const rateLimiter = (options?: RateLimiterOptions) => {
 
 export type RateLimiterPlugin = ReturnType<typeof rateLimiter>;
 export { RATE_LIMITER_ERROR_CODES } from "./error-codes";
+export { RATE_LIMIT_STORAGE_VERSION } from "./storage";
 export type * from "./types";
@@ -0,0 +1,204 @@
+import { BetterAuthError } from "@better-auth/core/error";
+
+/**
+ * An address range. IPv4 addresses are stored as IPv4-mapped IPv6 addresses
+ * (`::ffff:0:0/96`), so both families share one 128-bit representation and
+ * `::ffff:10.0.0.1` matches `10.0.0.0/8`.
+ */
+interface IpRange {
+	address: bigint;
+	/**
+	 * Prefix length in bits, out of 128.
+	 */
+	prefix: number;
+}
+
+const IPV4_MAPPED_PREFIX = 0xffffn << 32n;
+const IPV4_MAPPED_MASK = ((1n << 96n) - 1n) << 32n;
+
+function parseIpv4(ip: string): bigint | null {
+	const parts = ip.split(".");
+	if (parts.length !== 4) {
+		return null;
+	}
+	let value = 0n;
+	for (const part of parts) {
+		if (!/^\d{1,3}$/.test(part) || Number(part) > 255) {
+			return null;
+		}
+		value = (value << 8n) | BigInt(part);
+	}
+	return value;
+}
+
+function parseIpv6(ip: string): bigint | null {
+	const halves = ip.split("::");
+	if (halves.length > 2) {
+		return null;
+	}
+	const parseGroups = (half: string): number[] | null => {
+		if (!half) {
+			return [];
+		}
+		const groups: number[] = [];
+		const parts = half.split(":");
+		for (const [index, part] of parts.entries()) {
+			if (index === parts.length - 1 && part.includes(".")) {
+				const ipv4 = parseIpv4(part);
+				if (ipv4 === null) {
+					return null;
+				}
+				groups.push(Number(ipv4 >> 16n), Number(ipv4 & 0xffffn));
+			} else if (/^[\da-f]{1,4}$/i.test(part)) {
+				groups.push(Number.parseInt(part, 16));
+			} else {
+				return null;
+			}
+		}
+		return groups;
+	};
+
+	const head = parseGroups(halves[0]!);
+	const tail = halves.length === 2 ? parseGroups(halves[1]!) : [];
+	if (!head || !tail) {
+		return null;
+	}
+	const missing = 8 - head.length - tail.length;
+	if (halves.length === 2 ? missing < 1 : missing !== 0) {
+		return null;
+	}
+	const groups = [...head, ...Array<number>(missing).fill(0), ...tail];
+	return groups.reduce((value, group) => (value << 16n) | BigInt(group), 0n);
+}
+
+/**
+ * Parses an IPv4 or IPv6 address (optionally with a `%zone`) into its
+ * 128-bit value, or `null` when it is not a valid address.
+ */
+export function parseIp(ip: string): bigint | null {
+	const address = ip.trim().replace(/%.*$/, "");
+	if (address.includes(":")) {
+		return parseIpv6(address);
+	}
+	const ipv4 = parseIpv4(address);
+	return ipv4 === null ? null : IPV4_MAPPED_PREFIX | ipv4;
+}
+
+function parseRange(entry: string): IpRange | null {
+	const [ip, prefix, ...rest] = entry.trim().split("/");
+	const address = parseIp(ip!);
+	if (address === null || rest.length > 0) {
+		return null;
+	}
+	const isIpv4 = !ip!.includes(":");
+	const maxPrefix = isIpv4 ? 32 : 128;
+	if (prefix === undefined) {
+		return { address, prefix: 128 };
+	}
+	if (!/^\d{1,3}$/.test(prefix) || Number(prefix) > maxPrefix) {
+		return null;
+	}
+	return {
+		address,
+		prefix: Number(prefix) + (isIpv4 ? 96 : 0),
+	};
+}
+
+function getMask(prefix: number): bigint {
+	return ((1n << BigInt(prefix)) - 1n) << BigInt(128 - prefix);
+}
+
+function isIpv4Mapped(address: bigint): boolean {
+	return (address & IPV4_MAPPED_MASK) === IPV4_MAPPED_PREFIX;
+}
+
+/**
+ * Formats an address in its canonical text form: dotted decimal for IPv4
+ * (including IPv4-mapped addresses), RFC 5952 for IPv6 (lowercase, no
+ * leading zeros, longest run of zero groups compressed).
+ */
+export function formatIp(address: bigint): string {
+	if (isIpv4Mapped(address)) {
+		return [24n, 16n, 8n, 0n]
+			.map((shift) => String((address >> shift) & 0xffn))
+			.join(".");
+	}
+
+	const groups = Array.from({ length: 8 }, (_, i) =>
+		Number((address >> BigInt(112 - i * 16)) & 0xffffn),
+	);
+	let bestStart = -1;
+	let bestLength = 1;
+	for (let i = 0; i < groups.length; i++) {
+		let length = 0;
+		while (groups[i + length] === 0) {
+			length++;
+		}
+		if (length > bestLength) {
+			bestStart = i;
+			bestLength = length;
+		}
+		i += length;
+	}
+
+	const hex = groups.map((group) => group.toString(16));
+	if (bestStart === -1) {
+		return hex.join(":");
+	}
+	const head = hex.slice(0, bestStart).join(":");
+	const tail = hex.slice(bestStart + bestLength).join(":");
+	return `${head}::${tail}`;
+}
+
+/**
+ * Reduces `ip` to its subnet so that every address in it shares one key,
+ * e.g. `2001:db8:1:2:3:4:5:6` with a /64 prefix becomes `2001:db8:1:2::/64`.
+ * Full-length prefixes return the canonical address without a suffix.
+ * Returns `null` when `ip` is not a valid address.
+ */
+export function getSubnet(
+	ip: string,
+	{ ipv4Subnet, ipv6Subnet }: { ipv4Subnet: number; ipv6Subnet: number },
+): string | null {
+	const address = parseIp(ip);
+	if (address === null) {
+		return null;
+	}
+	const isIpv4 = isIpv4Mapped(address);
+	const prefix = isIpv4 ? ipv4Subnet : ipv6Subnet;
+	const maxPrefix = isIpv4 ? 32 : 128;
+	if (prefix >= maxPrefix) {
+		return formatIp(address);
+	}
+	const network = address & getMask(prefix + (isIpv4 ? 96 : 0));
+	return `${formatIp(network)}/${prefix}`;
+}
+
+/**
+ * Builds a matcher for a list of IPv4/IPv6 addresses and CIDR blocks (e.g.
+ * `"10.0.0.0/8"`, `"2001:db8::/32"`). Throws on invalid entries so that
+ * misconfigured lists fail at startup instead of silently not matching.
+ */
+export function createIpMatcher(
+	entries: string[],
+	option: string,
+): (ip: string) => boolean {
+	const ranges = entries.map((entry) => {
+		const range = parseRange(entry);
+		if (!range) {
+			throw new BetterAuthError(
+				`Invalid IP address or CIDR block "${entry}" in rate limiter "${option}"`,
+			);
+		}
+		const mask = getMask(range.prefix);
+		return { network: range.address & mask, mask };
+	});
+
+	return (ip) => {
+		const address = parseIp(ip);
+		if (address === null) {
+			return false;
+		}
+		return ranges.some(({ network, mask }) => (address & mask) === network);
+	};
+}
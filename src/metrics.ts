@@ -0,0 +1,167 @@
+import type {
+	RateLimitMemoryStats,
+	RateLimitMetricsResponse,
+	RateLimitRuleMetrics,
+} from "./types";
+
+/**
+ * Upper bounds (in seconds) of the check latency histogram buckets.
+ */
+const DEFAULT_BUCKETS = [0.001, 0.0025, 0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 1];
+
+const PREFIX = "better_auth_rate_limit";
+
+export interface Metrics {
+	/**
+	 * Records a completed check of `rule` (`null` for the default limits).
+	 */
+	recordCheck: (
+		rule: string | null,
+		outcome: "allowed" | "limited" | "error",
+		seconds: number,
+	) => void;
+	recordStorageError: (rule: string | null) => void;
+	getSnapshot: () => RateLimitMetricsResponse;
+	/**
+	 * Renders the metrics in the Prometheus text exposition format.
+	 */
+	toPrometheus: () => string;
+}
+
+function escapeLabel(value: string): string {
+	return value
+		.replace(/\\/g, "\\\\")
+		.replace(/"/g, '\\"')
+		.replace(/\n/g, "\\n");
+}
+
+function formatLabels(labels: Record<string, string>): string {
+	const pairs = Object.entries(labels).map(
+		([name, value]) => `${name}="${escapeLabel(value)}"`,
+	);
+	return `{${pairs.join(",")}}`;
+}
+
+/**
+ * In-process counters and a latency histogram per matched rule. Series are
+ * created on first use, so their number is bounded by the configured
+ * `customRules`.
+ */
+export function createMetrics(
+	storage: string,
+	getMemoryStats: () => RateLimitMemoryStats,
+	buckets: number[] = DEFAULT_BUCKETS,
+): Metrics {
+	const bounds = [...buckets].sort((a, b) => a - b);
+	const series = new Map<string, RateLimitRuleMetrics>();
+
+	function getSeries(rule: string | null): RateLimitRuleMetrics {
+		const name = rule ?? "default";
+		let metrics = series.get(name);
+		if (!metrics) {
+			metrics = {
+				rule: name,
+				storage,
+				checks: 0,
+				allowed: 0,
+				limited: 0,
+				storageErrors: 0,
+				latency: {
+					buckets: bounds.map((le) => ({ le, count: 0 })),
+					sum: 0,
+					count: 0,
+				},
+			};
+			series.set(name, metrics);
+		}
+		return metrics;
+	}
+
+	return {
+		recordCheck(rule, outcome, seconds) {
+			const metrics = getSeries(rule);
+			metrics.checks++;
+			if (outcome === "allowed") {
+				metrics.allowed++;
+			} else if (outcome === "limited") {
+				metrics.limited++;
+			}
+			for (const bucket of metrics.latency.buckets) {
+				if (seconds <= bucket.le) {
+					bucket.count++;
+				}
+			}
+			metrics.latency.sum += seconds;
+			metrics.latency.count++;
+		},
+		recordStorageError(rule) {
+			getSeries(rule).storageErrors++;
+		},
+		getSnapshot() {
+			return {
+				rules: structuredClone([...series.values()]),
+				memory: getMemoryStats(),
+			};
+		},
+		toPrometheus() {
+			const rules = [...series.values()];
+			const lines: string[] = [];
+			const counter = (
+				name: string,
+				help: string,
+				value: (metrics: RateLimitRuleMetrics) => number,
+			) => {
+				lines.push(
+					`# HELP ${PREFIX}_${name} ${help}`,
+					`# TYPE ${PREFIX}_${name} counter`,
+				);
+				for (const metrics of rules) {
+					const labels = formatLabels({
+						rule: metrics.rule,
+						storage: metrics.storage,
+					});
+					lines.push(`${PREFIX}_${name}${labels} ${value(metrics)}`);
+				}
+			};
+
+			counter("checks_total", "Rate limit checks.", (m) => m.checks);
+			counter("allowed_total", "Allowed requests.", (m) => m.allowed);
+			counter("limited_total", "Rejected requests.", (m) => m.limited);
+			counter(
+				"storage_errors_total",
+				"Storage failures while checking a limit.",
+				(m) => m.storageErrors,
+			);
+
+			const histogram = `${PREFIX}_check_duration_seconds`;
+			lines.push(
+				`# HELP ${histogram} Duration of rate limit checks in seconds.`,
+				`# TYPE ${histogram} histogram`,
+			);
+			for (const { rule, storage, latency } of rules) {
+				for (const { le, count } of latency.buckets) {
+					const labels = formatLabels({ rule, storage, le: String(le) });
+					lines.push(`${histogram}_bucket${labels} ${count}`);
+				}
+				const labels = formatLabels({ rule, storage });
+				const inf = formatLabels({ rule, storage, le: "+Inf" });
+				lines.push(
+					`${histogram}_bucket${inf} ${latency.count}`,
+					`${histogram}_sum${labels} ${latency.sum}`,
+					`${histogram}_count${labels} ${latency.count}`,
+				);
+			}
+
+			const memory = getMemoryStats();
+			lines.push(
+				`# HELP ${PREFIX}_memory_keys Keys in the in-memory storage.`,
+				`# TYPE ${PREFIX}_memory_keys gauge`,
+				`${PREFIX}_memory_keys ${memory.keys}`,
+				`# HELP ${PREFIX}_memory_evictions_total Keys evicted from the in-memory storage at maxKeys.`,
+				`# TYPE ${PREFIX}_memory_evictions_total counter`,
+				`${PREFIX}_memory_evictions_total ${memory.evictions}`,
+			);
+			return `${lines.join("\n")}\n`;
+		},
+	};
+}
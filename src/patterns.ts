@@ -0,0 +1,200 @@
+import type { RateLimitPathOptions } from "./types";
+
+/**
+ * Kinds of path segments, from most to least specific.
+ *
+ * - `"literal"` — matches itself, e.g. `generate`
+ * - `"param"` — `:name`, matches any non-empty segment
+ * - `"wildcard"` — contains `*`, matches within a single segment
+ * - `"globstar"` — contains `**`, matches across segments
+ */
+type SegmentKind = "literal" | "param" | "wildcard" | "globstar";
+
+const SEGMENT_RANK: Record<SegmentKind, number> = {
+	literal: 3,
+	param: 2,
+	wildcard: 1,
+	globstar: 0,
+};
+
+interface Segment {
+	kind: SegmentKind;
+	text: string;
+	regex: string;
+}
+
+export interface RoutePattern {
+	pattern: string;
+	/**
+	 * Upper-case HTTP method the pattern is limited to, or `null` for any.
+	 */
+	method: string | null;
+	path: string;
+	segments: Segment[];
+	regex: RegExp;
+}
+
+function escapeRegex(value: string): string {
+	return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function parseSegment(text: string): Segment {
+	if (text.includes("*")) {
+		const regex = text
+			.split("**")
+			.map((part) => part.split("*").map(escapeRegex).join("[^/]*"))
+			.join(".*");
+		return {
+			kind: text.includes("**") ? "globstar" : "wildcard",
+			text,
+			regex,
+		};
+	}
+	if (/^:[A-Za-z_]\w*$/.test(text)) {
+		return { kind: "param", text, regex: "[^/]+" };
+	}
+	return { kind: "literal", text, regex: escapeRegex(text) };
+}
+
+/**
+ * Parses a rule pattern such as `/api/users/:id`, `/api/ai/**` or
+ * `POST /api/comments`.
+ */
+export function compilePattern(pattern: string): RoutePattern {
+	const [, method, path = pattern] =
+		/^([A-Za-z]+)\s+(\S.*)$/.exec(pattern) ?? [];
+	const segments = path.split("/").map(parseSegment);
+	const regex = new RegExp(`^${segments.map((s) => s.regex).join("/")}$`);
+	return {
+		pattern,
+		method: method?.toUpperCase() ?? null,
+		path,
+		segments,
+		regex,
+	};
+}
+
+/**
+ * Whether `path` requested with `method` matches. Patterns limited to a
+ * method never match when the method is unknown.
+ */
+export function matchPattern(
+	route: RoutePattern,
+	path: string,
+	method?: string,
+): boolean {
+	if (route.method && route.method !== method?.toUpperCase()) {
+		return false;
+	}
+	return route.regex.test(path);
+}
+
+/**
+ * Orders patterns from most to least specific: segments are compared from
+ * left to right by kind (literal > param > `*` > `**`), and the first
+ * difference decides. Equal patterns are ordered by their number of literal
+ * characters, then patterns limited to a method come first.
+ */
+export function comparePatterns(a: RoutePattern, b: RoutePattern): number {
+	const length = Math.max(a.segments.length, b.segments.length);
+	for (let i = 0; i < length; i++) {
+		const rankA = a.segments[i] ? SEGMENT_RANK[a.segments[i]!.kind] : -1;
+		const rankB = b.segments[i] ? SEGMENT_RANK[b.segments[i]!.kind] : -1;
+		if (rankA !== rankB) {
+			return rankB - rankA;
+		}
+	}
+	const literals = (route: RoutePattern) =>
+		route.path.replace(/\*|:[A-Za-z_]\w*/g, "").length;
+	return (
+		literals(b) - literals(a) ||
+		Number(b.method !== null) - Number(a.method !== null)
+	);
+}
+
+function coversSegment(a: Segment, b: Segment): boolean {
+	if (a.text === b.text) {
+		return true;
+	}
+	switch (a.kind) {
+		case "param":
+			return (b.kind === "literal" && b.text !== "") || b.kind === "param";
+		case "wildcard":
+			if (a.text === "*") {
+				return b.kind !== "globstar";
+			}
+			return b.kind === "literal" && new RegExp(`^${a.regex}$`).test(b.text);
+		default:
+			return false;
+	}
+}
+
+/**
+ * Whether `a` matches every request `b` matches. Conservative: `false` when
+ * it cannot tell, e.g. for partial `**` segments.
+ */
+export function coversPattern(a: RoutePattern, b: RoutePattern): boolean {
+	if (a.method && a.method !== b.method) {
+		return false;
+	}
+	const covers = (i: number, j: number): boolean => {
+		const segment = a.segments[i];
+		if (!segment) {
+			return j === b.segments.length;
+		}
+		if (segment.text === "**") {
+			// Matches one or more (possibly empty) segments.
+			for (let k = j + 1; k <= b.segments.length; k++) {
+				if (covers(i + 1, k)) {
+					return true;
+				}
+			}
+			return false;
+		}
+		const other = b.segments[j];
+		return (
+			other !== undefined &&
+			coversSegment(segment, other) &&
+			covers(i + 1, j + 1)
+		);
+	};
+	return covers(0, 0);
+}
+
+function decodePercent(path: string): string {
+	return path.replace(/(?:%[0-9A-Fa-f]{2})+/g, (encoded) =>
+		encoded
+			.split(/%2F/i)
+			.map((part) => {
+				try {
+					return decodeURIComponent(part);
+				} catch {
+					// Not valid UTF-8, kept encoded
+					return part;
+				}
+			})
+			.join("%2F"),
+	);
+}
+
+/**
+ * Normalizes a checked path, e.g. `//api/./users/../x/?a=1` to `/api/x`.
+ * See `paths` in the plugin options.
+ */
+export function normalizePath(
+	path: string,
+	{ lowercase = false, decode = true }: RateLimitPathOptions = {},
+): string {
+	const [withoutQuery = ""] = path.split(/[?#]/, 1);
+	const decoded = decode ? decodePercent(withoutQuery) : withoutQuery;
+	const segments: string[] = [];
+	for (const segment of decoded.split("/")) {
+		if (segment === "..") {
+			segments.pop();
+		} else if (segment !== "." && segment !== "") {
+			segments.push(segment);
+		}
+	}
+	const normalized = `/${segments.join("/")}`;
+	return lowercase ? normalized.toLowerCase() : normalized;
+}
@@ -1,9 +1,75 @@
 import type { AuthContext } from "@better-auth/core";
-import type { RateLimitEntry } from "./types";
+import type { Where } from "@better-auth/core/db/adapter";
+import { BetterAuthError } from "@better-auth/core/error";
+import type {
+	RateLimitEntry,
+	RateLimitListOptions,
+	RateLimitMemoryOptions,
+	RateLimitMemoryStats,
+	RateLimitStorage,
+} from "./types";
 
-export interface RateLimitStorage {
-	get(key: string): Promise<RateLimitEntry | null>;
-	set(key: string, value: RateLimitEntry, update?: boolean): Promise<void>;
+const MAX_INCREMENT_ATTEMPTS = 10;
+
+/**
+ * Version of the {@link RateLimitStorage} interface implemented by this
+ * plugin. Bumped on breaking changes to the interface.
+ */
+export const RATE_LIMIT_STORAGE_VERSION = 1;
+
+/**
+ * Returns `null` when a refund finds no current window, in which case there
+ * is nothing to write.
+ */
+function nextWindowEntry(
+	key: string,
+	current: RateLimitEntry | null,
+	windowMs: number,
+	now: number,
+	amount: number,
+): RateLimitEntry | null {
+	if (!current || now - current.lastRequest >= windowMs) {
+		return amount > 0 ? { key, count: amount, lastRequest: now } : null;
+	}
+	return { ...current, count: Math.max(0, current.count + amount) };
+}
+
+function backoff(attempt: number): Promise<void> {
+	const delay = Math.random() * 2 ** attempt;
+	return new Promise((resolve) => setTimeout(resolve, delay));
+}
+
+/**
+ * `setInterval` that does not keep the process alive, for background
+ * maintenance such as sweeps, syncs and cleanups.
+ */
+export function setUnrefInterval(fn: () => void, ms: number): void {
+	const timer: unknown = setInterval(fn, ms);
+	(timer as { unref?: () => void }).unref?.();
+}
+
+export type KeyedLock = <T>(key: string, fn: () => Promise<T>) => Promise<T>;
+
+/**
+ * Serializes async operations on the same key within this process.
+ */
+export function createKeyedLock(): KeyedLock {
+	const tails = new Map<string, Promise<unknown>>();
+	return async function withLock<T>(
+		key: string,
+		fn: () => Promise<T>,
+	): Promise<T> {
+		const run = (tails.get(key) ?? Promise.resolve()).then(fn);
+		const tail = run.catch(() => {});
+		tails.set(key, tail);
+		try {
+			return await run;
+		} finally {
+			if (tails.get(key) === tail) {
+				tails.delete(key);
+			}
+		}
+	};
 }
 
 interface MemoryEntry {
@@ -11,34 +77,121 @@ interface MemoryEntry {
 	expiresAt: number;
 }
 
-export function createMemoryStorage(defaultWindow: number): RateLimitStorage {
+export interface MemoryStorage extends RateLimitStorage {
+	/**
+	 * Removes expired entries. Runs every `sweepInterval` milliseconds.
+	 */
+	sweep(): void;
+	getStats(): RateLimitMemoryStats;
+}
+
+/**
+ * In-process storage. Entries expire after the TTL of the limit that wrote
+ * them and are removed on read or by the periodic sweep. Beyond `maxKeys`,
+ * the least recently used key is evicted.
+ */
+export function createMemoryStorage({
+	maxKeys = 100_000,
+	sweepInterval = 60_000,
+}: RateLimitMemoryOptions = {}): MemoryStorage {
+	// Maps iterate in insertion order; entries are reinserted on every
+	// access, so the first key is always the least recently used one.
 	const memory = new Map<string, MemoryEntry>();
+	let evictions = 0;
+
+	function read(key: string, now: number): RateLimitEntry | null {
+		const entry = memory.get(key);
+		if (!entry) {
+			return null;
+		}
+		memory.delete(key);
+		if (now >= entry.expiresAt) {
+			return null;
+		}
+		memory.set(key, entry);
+		return entry.data;
+	}
+
+	function write(key: string, entry: MemoryEntry) {
+		memory.delete(key);
+		memory.set(key, entry);
+		if (memory.size > maxKeys) {
+			memory.delete(memory.keys().next().value!);
+			evictions++;
+		}
+	}
+
+	function sweep() {
+		const now = Date.now();
+		for (const [key, entry] of memory) {
+			if (now >= entry.expiresAt) {
+				memory.delete(key);
+			}
+		}
+	}
+
+	setUnrefInterval(sweep, sweepInterval);
+
 	return {
 		async get(key) {
-			const entry = memory.get(key);
-			if (!entry) {
-				return null;
-			}
-			if (Date.now() >= entry.expiresAt) {
-				memory.delete(key);
-				return null;
+			return read(key, Date.now());
+		},
+		async set(key, value, _update, ttl) {
+			write(key, { data: value, expiresAt: Date.now() + ttl * 1000 });
+		},
+		async increment(key, windowMs, amount = 1) {
+			// No await between read and write, so this is atomic in-process.
+			const now = Date.now();
+			const current = read(key, now);
+			const data = nextWindowEntry(key, current, windowMs, now, amount);
+			if (!data) {
+				return { key, count: 0, lastRequest: now };
 			}
-			return entry.data;
+			write(key, { data, expiresAt: data.lastRequest + windowMs });
+			return data;
+		},
+		async delete(key) {
+			memory.delete(key);
 		},
-		async set(key, value) {
-			const expiresAt = Date.now() + defaultWindow * 1000;
-			memory.set(key, { data: value, expiresAt });
+		async list({ prefix = "", limit, offset }) {
+			const now = Date.now();
+			return Array.from(memory.values())
+				.filter(
+					({ data, expiresAt }) =>
+						now < expiresAt && data.key.startsWith(prefix),
+				)
+				.map(({ data }) => data)
+				.sort((a, b) => (a.key < b.key ? -1 : a.key > b.key ? 1 : 0))
+				.slice(offset, offset + limit);
+		},
+		sweep,
+		getStats() {
+			return { keys: memory.size, maxKeys, evictions };
 		},
 	};
 }
 
+/**
+ * Secondary storage only offers `get`/`set`, so increments are serialized
+ * per key within this process. Instances sharing the same store can still
+ * race each other.
+ */
 export function createSecondaryStorageWrapper(
 	ctx: AuthContext,
-	defaultWindow: number,
 ): RateLimitStorage {
+	const withLock = createKeyedLock();
+	const getSecondaryStorage = () => {
+		const secondaryStorage = ctx.options.secondaryStorage;
+		if (!secondaryStorage) {
+			throw new BetterAuthError(
+				"Rate limiter storage is secondary-storage but no secondaryStorage is configured",
+			);
+		}
+		return secondaryStorage;
+	};
 	return {
 		async get(key) {
-			const data = await ctx.options.secondaryStorage?.get(key);
+			const data = await getSecondaryStorage().get(key);
 			if (!data || typeof data !== "string") {
 				return null;
 			}
@@ -48,19 +201,111 @@ export function createSecondaryStorageWrapper(
 				return null;
 			}
 		},
-		async set(key, value) {
-			await ctx.options.secondaryStorage?.set?.(
-				key,
-				JSON.stringify(value),
-				defaultWindow,
-			);
+		async increment(key, windowMs, amount = 1) {
+			return withLock(key, async () => {
+				const now = Date.now();
+				const current = await this.get(key);
+				const data = nextWindowEntry(key, current, windowMs, now, amount);
+				if (!data) {
+					return { key, count: 0, lastRequest: now };
+				}
+				const ttl = Math.ceil((data.lastRequest + windowMs - now) / 1000);
+				await this.set(key, data, true, Math.max(1, ttl));
+				return data;
+			});
+		},
+		async set(key, value, _update, ttl) {
+			await getSecondaryStorage().set(key, JSON.stringify(value), ttl);
+		},
+		async delete(key) {
+			await getSecondaryStorage().delete(key);
 		},
 	};
 }
 
-export function createDatabaseStorage(ctx: AuthContext): RateLimitStorage {
+/**
+ * Converts a row to an entry: bigint columns to numbers, without `expiresAt`.
+ */
+function fromDatabaseRow(
+	data: RateLimitEntry & { expiresAt?: unknown },
+): RateLimitEntry {
+	if (typeof data.lastRequest === "bigint") {
+		data.lastRequest = Number(data.lastRequest);
+	}
+	if (data.blockedUntil == null) {
+		delete data.blockedUntil;
+	} else if (typeof data.blockedUntil === "bigint") {
+		data.blockedUntil = Number(data.blockedUntil);
+	}
+	delete data.expiresAt;
+	return data;
+}
+
+export interface DatabaseCleanupOptions {
+	/**
+	 * Rows deleted per query.
+	 */
+	batchSize: number;
+	/**
+	 * Milliseconds after the start of their window that rows without an
+	 * `expiresAt` (written before the column existed) are deleted.
+	 */
+	legacyMaxAge: number;
+}
+
+export interface DatabaseStorage extends RateLimitStorage {
+	/**
+	 * Deletes expired rows in batches and returns how many were deleted.
+	 */
+	cleanup(options: DatabaseCleanupOptions): Promise<number>;
+}
+
+/**
+ * Increments use a conditional update on the previously read `count` and
+ * `lastRequest` (compare-and-swap), retrying when another writer changed the
+ * row in between. A per-key lock additionally serializes increments within
+ * this process.
+ */
+export function createDatabaseStorage(ctx: AuthContext): DatabaseStorage {
 	const model = "rateLimit";
 	const db = ctx.adapter;
+	const withLock = createKeyedLock();
+
+	/**
+	 * Deletes the rows matching `where` in batches of `batchSize`, so that
+	 * no single query locks a large part of the table.
+	 */
+	async function deleteInBatches(where: Where[], batchSize: number) {
+		// Adapters do not all report how many rows `deleteMany` removed, so
+		// rows are counted as they are found. Rows found twice were not
+		// deleted, which ends the loop.
+		const deleted = new Set<string>();
+		while (true) {
+			const rows = await db.findMany<{ id: string }>({
+				model,
+				where,
+				limit: batchSize,
+				select: ["id"],
+			});
+			const ids = rows.map((row) => row.id).filter((id) => !deleted.has(id));
+			if (ids.length === 0) {
+				return deleted.size;
+			}
+			// `where` is repeated so that a row renewed since it was read is
+			// kept.
+			await db.deleteMany({
+				model,
+				where: [...where, { field: "id", operator: "in", value: ids }],
+			});
+			for (const id of ids) {
+				deleted.add(id);
+			}
+			if (rows.length < batchSize) {
+				return deleted.size;
+			}
+		}
+	}
+
 	return {
 		async get(key) {
 			const res = await db.findMany<RateLimitEntry>({
@@ -71,35 +316,390 @@ export function createDatabaseStorage(ctx: AuthContext): RateLimitStorage {
 			if (!data) {
 				return null;
 			}
-			if (typeof data.lastRequest === "bigint") {
-				data.lastRequest = Number(data.lastRequest);
+			return fromDatabaseRow(data);
+		},
+		async delete(key) {
+			await db.delete({
+				model,
+				where: [{ field: "key", value: key }],
+			});
+		},
+		async list({ prefix, limit, offset }) {
+			const rows = await db.findMany<RateLimitEntry>({
+				model,
+				where: prefix
+					? [{ field: "key", operator: "starts_with", value: prefix }]
+					: [],
+				limit,
+				offset,
+				sortBy: { field: "key", direction: "asc" },
+			});
+			return rows.map(fromDatabaseRow);
+		},
+		async set(key, value, update, ttl) {
+			const fields = {
+				count: value.count,
+				lastRequest: value.lastRequest,
+				previousCount: value.previousCount ?? 0,
+				blockedUntil: value.blockedUntil ?? null,
+				expiresAt: Date.now() + ttl * 1000,
+			};
+			if (!update) {
+				try {
+					await db.create({ model, data: { key, ...fields } });
+					return;
+				} catch {
+					// Another instance created the row first (unique key), or
+					// the database is down and the update below fails too.
+				}
 			}
-			return data;
+			await db.updateMany({
+				model,
+				where: [{ field: "key", value: key }],
+				update: fields,
+			});
 		},
-		async set(key, value, update) {
-			try {
-				if (update) {
-					await db.updateMany({
+		async increment(key, windowMs, amount = 1) {
+			return withLock(key, async () => {
+				for (let attempt = 0; attempt < MAX_INCREMENT_ATTEMPTS; attempt++) {
+					const current = await this.get(key);
+					const now = Date.now();
+					const data = nextWindowEntry(key, current, windowMs, now, amount);
+					if (!data) {
+						return { key, count: 0, lastRequest: now };
+					}
+					if (!current) {
+						try {
+							await db.create({
+								model,
+								data: {
+									key,
+									count: data.count,
+									lastRequest: data.lastRequest,
+									previousCount: 0,
+									expiresAt: data.lastRequest + windowMs,
+								},
+							});
+							return data;
+						} catch {
+							// Another instance created the row first (unique key).
+							continue;
+						}
+					}
+					// Only returns the row when the conditional update matched.
+					const updated = await db.update<RateLimitEntry>({
 						model,
-						where: [{ field: "key", value: key }],
+						where: [
+							{ field: "key", value: key },
+							{ field: "count", value: current.count },
+							{ field: "lastRequest", value: current.lastRequest },
+						],
 						update: {
-							count: value.count,
-							lastRequest: value.lastRequest,
+							count: data.count,
+							lastRequest: data.lastRequest,
+							expiresAt: data.lastRequest + windowMs,
 						},
 					});
-				} else {
-					await db.create({
+					if (
+						updated &&
+						updated.count === data.count &&
+						Number(updated.lastRequest) === data.lastRequest
+					) {
+						return data;
+					}
+					await backoff(attempt);
+				}
+				throw new BetterAuthError(
+					`Failed to increment rate limit for "${key}" after ${MAX_INCREMENT_ATTEMPTS} attempts`,
+				);
+			});
+		},
+		async cleanup({ batchSize, legacyMaxAge }) {
+			const now = Date.now();
+			let deleted = await deleteInBatches(
+				[{ field: "expiresAt", operator: "lt", value: now }],
+				batchSize,
+			);
+			// Adapters cannot portably match `null`, so rows old enough to be
+			// expired legacy rows are read and filtered here.
+			const old: Where = {
+				field: "lastRequest",
+				operator: "lt",
+				value: now - legacyMaxAge,
+			};
+			let cursor: string | null = null;
+			while (true) {
+				const rows: { id: string; expiresAt?: unknown }[] = await db.findMany({
+					model,
+					where:
+						cursor === null
+							? [old]
+							: [old, { field: "id", operator: "gt", value: cursor }],
+					limit: batchSize,
+					sortBy: { field: "id", direction: "asc" },
+					select: ["id", "expiresAt"],
+				});
+				const ids = rows
+					.filter((row) => row.expiresAt == null)
+					.map((row) => row.id);
+				if (ids.length > 0) {
+					await db.deleteMany({
 						model,
-						data: {
-							key,
-							count: value.count,
-							lastRequest: value.lastRequest,
-						},
+						where: [old, { field: "id", operator: "in", value: ids }],
 					});
+					deleted += ids.length;
+				}
+				if (rows.length < batchSize) {
+					return deleted;
 				}
-			} catch (e) {
-				ctx.logger.error("Error setting rate limit", e);
+				cursor = rows.at(-1)!.id;
 			}
 		},
 	};
 }
+
+export interface FailoverOptions {
+	/**
+	 * Milliseconds after which a storage call fails.
+	 */
+	timeout: number;
+	/**
+	 * Consecutive failures after which calls go to the fallback, or `null`
+	 * to never fall back.
+	 */
+	threshold: number | null;
+	/**
+	 * Milliseconds calls go to the fallback before the primary storage is
+	 * tried again.
+	 */
+	cooldown: number;
+}
+
+function withTimeout<T>(promise: Promise<T>, ms: number): Promise<T> {
+	let timer: ReturnType<typeof setTimeout> | undefined;
+	const timeout = new Promise<never>((_, reject) => {
+		timer = setTimeout(
+			() =>
+				reject(
+					new BetterAuthError(`Rate limit storage timed out after ${ms}ms`),
+				),
+			ms,
+		);
+	});
+	return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+/**
+ * Limits every call to `primary` to `timeout` and acts as a circuit
+ * breaker: after `threshold` consecutive failures, calls go to `fallback`
+ * for `cooldown`. The next call after that tries `primary` again; a single
+ * failure then reopens the circuit, a success closes it.
+ *
+ * Increments of the same key are queued before their timeout starts, so
+ * only the storage round trips count against it: a burst on one key (one
+ * IP, or one email during credential stuffing) waits in the queue instead
+ * of timing out and being handled as a storage failure.
+ *
+ * Failed calls are rethrown, so the caller decides how to handle them. A
+ * call that timed out may still complete in the background.
+ */
+export function createFailoverStorage(
+	primary: RateLimitStorage,
+	fallback: RateLimitStorage,
+	{ timeout, threshold, cooldown }: FailoverOptions,
+	logger: AuthContext["logger"],
+): RateLimitStorage {
+	const withLock = createKeyedLock();
+	let failures = 0;
+	let openUntil = 0;
+
+	async function call<T>(
+		operation: (storage: RateLimitStorage) => Promise<T>,
+	): Promise<T> {
+		if (Date.now() < openUntil) {
+			return operation(fallback);
+		}
+		try {
+			const result = await withTimeout(operation(primary), timeout);
+			if (threshold !== null && failures >= threshold) {
+				logger.info("Rate limit storage recovered");
+			}
+			failures = 0;
+			return result;
+		} catch (e) {
+			failures++;
+			if (threshold !== null && failures >= threshold) {
+				openUntil = Date.now() + cooldown;
+				logger.warn(
+					`Rate limit storage is failing, using in-memory storage for ${cooldown / 1000}s`,
+				);
+			}
+			throw e;
+		}
+	}
+
+	return {
+		get: (key) => call((storage) => storage.get(key)),
+		set: (key, value, update, ttl) =>
+			call((storage) => storage.set(key, value, update, ttl)),
+		increment: (key, windowMs, amount) =>
+			withLock(key, () =>
+				call((storage) => storage.increment(key, windowMs, amount)),
+			),
+		delete: (key) => call((storage) => storage.delete(key)),
+		...(primary.list
+			? {
+					list: (options: RateLimitListOptions) =>
+						call((storage) => storage.list!(options)),
+				}
+			: {}),
+	};
+}
+
+export interface HybridStorage extends RateLimitStorage {
+	/**
+	 * Writes pending increments to the shared storage and refreshes the
+	 * local view of every active counter with the increments of other
+	 * instances.
+	 */
+	flush(): Promise<void>;
+}
+
+interface HybridCounter {
+	/**
+	 * Local view: the shared count as of the last sync plus `pending`.
+	 */
+	data: RateLimitEntry;
+	/**
+	 * Increments not yet written to the shared storage.
+	 */
+	pending: number;
+	windowMs: number;
+}
+
+/**
+ * Keeps fixed-window counters in local memory in front of a shared storage.
+ * A counter is read from `shared` when it is first seen in a window; after
+ * that, increments are applied locally (so identifiers over the limit are
+ * rejected without a round trip) and written to `shared` in batches every
+ * `syncInterval` milliseconds, which also pulls in the increments of other
+ * instances.
+ *
+ * `get` is cached for up to `syncInterval`; `set` and `delete` write
+ * through.
+ */
+export function createHybridStorage(
+	shared: RateLimitStorage,
+	{ syncInterval }: { syncInterval: number },
+	logger: AuthContext["logger"],
+): HybridStorage {
+	const counters = new Map<string, HybridCounter>();
+	const cache = new Map<string, MemoryEntry>();
+	const withLock = createKeyedLock();
+	let flushing: Promise<void> | null = null;
+
+	async function syncCounter(key: string, counter: HybridCounter) {
+		const { pending, windowMs } = counter;
+		if (Date.now() - counter.data.lastRequest >= windowMs) {
+			// The window ended before it was synced, the next increment starts
+			// a new one.
+			counters.delete(key);
+			return;
+		}
+		counter.pending = 0;
+		try {
+			const data =
+				pending === 0
+					? await shared.get(key)
+					: await shared.increment(key, windowMs, pending);
+			// Skip when a new local window was started in the meantime.
+			if (data && counters.get(key) === counter) {
+				counter.data = { ...data, count: data.count + counter.pending };
+			}
+		} catch (e) {
+			counter.pending += pending;
+			logger.error("Error syncing rate limit", e);
+		}
+	}
+
+	async function flush() {
+		const now = Date.now();
+		for (const [key, entry] of cache) {
+			if (now >= entry.expiresAt) {
+				cache.delete(key);
+			}
+		}
+		await Promise.all(
+			[...counters].map(([key, counter]) => syncCounter(key, counter)),
+		);
+	}
+
+	setUnrefInterval(() => {
+		flushing ??= flush().finally(() => {
+			flushing = null;
+		});
+	}, syncInterval);
+
+	return {
+		async get(key) {
+			const now = Date.now();
+			const counter = counters.get(key);
+			if (counter && now - counter.data.lastRequest < counter.windowMs) {
+				return counter.data;
+			}
+			const cached = cache.get(key);
+			if (cached && now < cached.expiresAt) {
+				return cached.data;
+			}
+			const data = await shared.get(key);
+			if (data) {
+				cache.set(key, { data, expiresAt: now + syncInterval });
+			}
+			return data;
+		},
+		async set(key, value, update, ttl) {
+			// `value` is derived from the local view, so it already includes
+			// pending increments.
+			counters.delete(key);
+			cache.set(key, { data: value, expiresAt: Date.now() + syncInterval });
+			await shared.set(key, value, update, ttl);
+		},
+		async increment(key, windowMs, amount = 1) {
+			return withLock(key, async () => {
+				let counter = counters.get(key);
+				if (!counter || Date.now() - counter.data.lastRequest >= windowMs) {
+					const data = (await shared.get(key)) ?? {
+						key,
+						count: 0,
+						lastRequest: Date.now(),
+					};
+					counter = { data, pending: 0, windowMs };
+					counters.set(key, counter);
+				}
+				const now = Date.now();
+				const data = nextWindowEntry(key, counter.data, windowMs, now, amount);
+				if (!data) {
+					return { key, count: 0, lastRequest: now };
+				}
+				// Pending increments of an ended window no longer matter.
+				counter.pending =
+					data.lastRequest === counter.data.lastRequest
+						? counter.pending + data.count - counter.data.count
+						: data.count;
+				counter.data = data;
+				return data;
+			});
+		},
+		async delete(key) {
+			counters.delete(key);
+			cache.delete(key);
+			await shared.delete(key);
+		},
+		...(shared.list
+			? {
+					list: (options: RateLimitListOptions) => shared.list!(options),
+				}
+			: {}),
+		flush,
+	};
+}
@@ -0,0 +1,190 @@
+import { describe, expect, it } from "vitest";
+import { RATE_LIMIT_STORAGE_VERSION } from "./storage";
+import type { RateLimitStorage } from "./types";
+
+export interface RateLimitStorageTestOptions {
+	/**
+	 * Creates the storage under test. Called once per test; keys are unique
+	 * per test, so a shared backend does not need to be cleared in between.
+	 */
+	createStorage: () => RateLimitStorage | Promise<RateLimitStorage>;
+	/**
+	 * Window in milliseconds used to check that expired windows are
+	 * restarted. The test waits slightly longer than this.
+	 * @default 200
+	 */
+	windowMs?: number;
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Registers a vitest suite checking that a {@link RateLimitStorage}
+ * implementation behaves the way the plugin relies on: entries round-trip,
+ * `increment` is atomic and handles windows and refunds, and `list` (when
+ * implemented) filters, orders and paginates.
+ *
+ * ```ts
+ * import { runRateLimitStorageTests } from "better-auth-rate-limiter/testing";
+ *
+ * runRateLimitStorageTests("redis storage", {
+ *   createStorage: () => createRedisStorage(redis),
+ * });
+ * ```
+ */
+export function runRateLimitStorageTests(
+	name: string,
+	{ createStorage, windowMs = 200 }: RateLimitStorageTestOptions,
+): void {
+	const setup = async () => ({
+		storage: await createStorage(),
+		prefix: `conformance:${crypto.randomUUID()}:`,
+	});
+
+	describe(name, () => {
+		it("should implement the supported interface version", async () => {
+			const { storage } = await setup();
+			expect(storage.version ?? 1).toBe(RATE_LIMIT_STORAGE_VERSION);
+		});
+
+		it("should return null for a missing key", async () => {
+			const { storage, prefix } = await setup();
+			expect(await storage.get(`${prefix}missing`)).toBeNull();
+		});
+
+		it("should store and return entries", async () => {
+			const { storage, prefix } = await setup();
+			const key = `${prefix}key`;
+			const entry = {
+				key,
+				count: 3,
+				lastRequest: Date.now(),
+				previousCount: 2,
+				blockedUntil: Date.now() + 60_000,
+			};
+
+			await storage.set(key, entry, false, 60);
+			expect(await storage.get(key)).toMatchObject(entry);
+
+			const updated = { key, count: 4, lastRequest: entry.lastRequest };
+			await storage.set(key, updated, true, 60);
+			expect(await storage.get(key)).toMatchObject({
+				key,
+				count: 4,
+				lastRequest: entry.lastRequest,
+			});
+		});
+
+		it("should overwrite an entry when set without update", async () => {
+			const { storage, prefix } = await setup();
+			const key = `${prefix}key`;
+			const lastRequest = Date.now();
+
+			await storage.set(key, { key, count: 1, lastRequest }, false, 60);
+			await storage.set(key, { key, count: 2, lastRequest }, false, 60);
+			expect((await storage.get(key))?.count).toBe(2);
+		});
+
+		it("should delete entries", async () => {
+			const { storage, prefix } = await setup();
+			const key = `${prefix}key`;
+
+			await storage.increment(key, 60_000);
+			await storage.delete(key);
+			expect(await storage.get(key)).toBeNull();
+			await expect(storage.delete(`${prefix}missing`)).resolves.toBeUndefined();
+		});
+
+		it("should start a window on the first increment", async () => {
+			const { storage, prefix } = await setup();
+			const key = `${prefix}key`;
+			const before = Date.now();
+
+			const entry = await storage.increment(key, 60_000);
+			expect(entry).toMatchObject({ key, count: 1 });
+			expect(entry.lastRequest).toBeGreaterThanOrEqual(before);
+			expect(entry.lastRequest).toBeLessThanOrEqual(Date.now());
+			expect(await storage.get(key)).toMatchObject({
+				count: 1,
+				lastRequest: entry.lastRequest,
+			});
+		});
+
+		it("should add to the current window", async () => {
+			const { storage, prefix } = await setup();
+			const key = `${prefix}key`;
+
+			const first = await storage.increment(key, 60_000);
+			const second = await storage.increment(key, 60_000, 3);
+			expect(second).toMatchObject({
+				count: 4,
+				lastRequest: first.lastRequest,
+			});
+		});
+
+		it("should start a new window once the current one ended", async () => {
+			const { storage, prefix } = await setup();
+			const key = `${prefix}key`;
+
+			const first = await storage.increment(key, windowMs, 2);
+			await sleep(windowMs + 50);
+			const second = await storage.increment(key, windowMs);
+			expect(second.count).toBe(1);
+			expect(second.lastRequest).toBeGreaterThan(first.lastRequest);
+		});
+
+		it("should refund without going below zero", async () => {
+			const { storage, prefix } = await setup();
+			const key = `${prefix}key`;
+
+			const first = await storage.increment(key, 60_000, 3);
+			expect(await storage.increment(key, 60_000, -2)).toMatchObject({
+				count: 1,
+				lastRequest: first.lastRequest,
+			});
+			expect((await storage.increment(key, 60_000, -5)).count).toBe(0);
+		});
+
+		it("should not start a window when refunding a missing key", async () => {
+			const { storage, prefix } = await setup();
+			const key = `${prefix}key`;
+
+			expect((await storage.increment(key, 60_000, -1)).count).toBe(0);
+			expect(await storage.get(key)).toBeNull();
+		});
+
+		it("should not lose parallel increments", async () => {
+			const { storage, prefix } = await setup();
+			const key = `${prefix}key`;
+			const parallel = 20;
+
+			const entries = await Promise.all(
+				Array.from({ length: parallel }, () => storage.increment(key, 60_000)),
+			);
+			const counts = entries.map((e) => e.count).sort((a, b) => a - b);
+			expect(counts).toEqual(Array.from({ length: parallel }, (_, i) => i + 1));
+			expect((await storage.get(key))?.count).toBe(parallel);
+		});
+
+		it("should list entries by prefix, ordered by key", async (context) => {
+			const { storage, prefix } = await setup();
+			if (!storage.list) {
+				context.skip();
+				return;
+			}
+			for (const key of ["c", "a", "b"]) {
+				await storage.increment(`${prefix}${key}`, 60_000);
+			}
+			await storage.increment(`${prefix.slice(0, -1)}-other`, 60_000);
+
+			const keys = async (limit: number, offset: number) =>
+				(await storage.list!({ prefix, limit, offset })).map((e) => e.key);
+			expect(await keys(10, 0)).toEqual([
+				`${prefix}a`,
+				`${prefix}b`,
+				`${prefix}c`,
+			]);
+			expect(await keys(1, 1)).toEqual([`${prefix}b`]);
+		});
+	});
+}
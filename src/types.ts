@@ -1,6 +1,314 @@
+import type { Session, User } from "better-auth";
+import type { RATE_LIMITER_ERROR_CODES } from "./error-codes";
+
+/**
+ * Algorithm used to count requests.
+ *
+ * - `"fixed-window"` — counter that resets at the end of each window (default)
+ * - `"sliding-window"` — weighted two-counter approximation of a sliding window
+ * - `"token-bucket"` — bucket of `burst` tokens refilled at `refillRate`
+ * - `"gcra"` — generic cell rate algorithm, evenly spaces requests
+ */
+export type RateLimitAlgorithm =
+	| "fixed-window"
+	| "sliding-window"
+	| "token-bucket"
+	| "gcra";
+
+/**
+ * Whether a limit rejects requests.
+ *
+ * - `"enforce"` — requests over the limit are rejected (default)
+ * - `"shadow"` — requests are counted and evaluated as usual but always
+ *   allowed, flagging `wouldHaveBeenLimited` instead
+ */
+export type RateLimitMode = "enforce" | "shadow";
+
+export interface RateLimitSession {
+	session: Session & Record<string, any>;
+	user: User & Record<string, any>;
+}
+
+/**
+ * Context passed to dynamic `window` / `max` / `cost` functions.
+ */
+export interface RateLimitRuleContext {
+	/**
+	 * Session of the requester, or `null` when unauthenticated.
+	 */
+	session: RateLimitSession | null;
+	path: string;
+	/**
+	 * HTTP method of the request, when known.
+	 */
+	method?: string;
+	/**
+	 * Body of the Better Auth request when enforced through `enforce`.
+	 */
+	body?: unknown;
+	request?: Request;
+	headers?: Headers;
+}
+
+/**
+ * A static value, or a function resolving it per request (e.g. from the
+ * user's plan or role). Results are cached for the duration of a request.
+ */
+export type RateLimitValue =
+	| number
+	| ((context: RateLimitRuleContext) => number | Promise<number>);
+
+/**
+ * Builds the identifier a request is counted under (e.g. an API key,
+ * organization ID or tenant). Returning `null` falls back to the built-in
+ * `detection`. The checked path is appended to the key.
+ */
+export type RateLimitKeyGenerator = (
+	context: RateLimitRuleContext,
+) => string | null | Promise<string | null>;
+
+/**
+ * Escalating lockout for requesters that keep hitting a limit. Every
+ * rejected request counts as a violation; each `threshold` violations within
+ * `lookback` block the requester for `duration * multiplier ^ n` seconds,
+ * where `n` is the number of lockouts before it, up to `maxDuration`.
+ */
+export interface RateLimitPenalty {
+	/**
+	 * Violations that trigger a lockout.
+	 * @default 3
+	 */
+	threshold?: number;
+	/**
+	 * Seconds violations are remembered for, counted from the first one.
+	 * @default 3600
+	 */
+	lookback?: number;
+	/**
+	 * Duration of the first lockout in seconds.
+	 * @default 60
+	 */
+	duration?: number;
+	/**
+	 * Factor each following lockout is multiplied by.
+	 * @default 2
+	 */
+	multiplier?: number;
+	/**
+	 * Longest lockout in seconds.
+	 * @default 86400
+	 */
+	maxDuration?: number;
+}
+
 export interface RateLimitRule {
+	/**
+	 * Window in seconds. Must resolve to a positive number, otherwise the
+	 * check fails with an error.
+	 */
+	window: RateLimitValue;
+	/**
+	 * Maximum number of requests per window. Must resolve to a positive
+	 * integer, otherwise the check fails with an error.
+	 */
+	max: RateLimitValue;
+	/**
+	 * Algorithm override for this rule. Defaults to the global `algorithm`.
+	 */
+	algorithm?: RateLimitAlgorithm;
+	/**
+	 * Tokens added per second (`"token-bucket"` only).
+	 * @default max / window
+	 */
+	refillRate?: number;
+	/**
+	 * Bucket capacity for `"token-bucket"`, burst tolerance (in requests)
+	 * for `"gcra"`.
+	 * @default max
+	 */
+	burst?: number;
+	/**
+	 * Key generator override for this rule. Defaults to the global
+	 * `keyGenerator`.
+	 */
+	keyGenerator?: RateLimitKeyGenerator;
+	/**
+	 * Key this limit on a field of the request body (e.g. `"email"` or
+	 * `"phoneNumber"`) instead of the requester, so one account can only be
+	 * attempted `max` times per window regardless of source IP. Values are
+	 * normalized and hashed. Only applies to Better Auth endpoints enforced
+	 * through `enforce`; the limit is skipped when the field is missing.
+	 */
+	bodyField?: string;
+	/**
+	 * Which requests count against this limit.
+	 *
+	 * - `"all"` — every request (default)
+	 * - `"failed"` — only requests that end in an error response
+	 *   (status >= 400), e.g. failed sign-ins or OTP verifications
+	 *
+	 * Requests are still counted up front, so concurrent attempts cannot
+	 * exceed the limit; successful ones are refunded by an after hook. This
+	 * only applies automatically to endpoints enforced through `enforce`; call
+	 * `auth.api.refundRateLimit` from your own handlers instead.
+	 *
+	 * @default "all"
+	 */
+	count?: "all" | "failed";
+	/**
+	 * Units a request consumes from this limit, e.g. to charge expensive AI
+	 * calls more than cheap ones. `max` is then a budget of units rather
+	 * than requests. A `cost` passed to `checkRateLimit` takes precedence.
+	 * Must resolve to a positive integer, otherwise the check fails with an
+	 * error, so sanitize values taken from the request.
+	 *
+	 * @example
+	 * ```ts
+	 * cost: ({ headers }) =>
+	 *   Math.max(1, Number.parseInt(headers?.get("x-batch-size") ?? "", 10) || 1)
+	 * ```
+	 *
+	 * @default 1
+	 */
+	cost?: RateLimitValue;
+	/**
+	 * Penalty override for this rule, or `false` to disable the global one.
+	 */
+	penalty?: RateLimitPenalty | false;
+	/**
+	 * Mode override for this rule, e.g. `"shadow"` to try out a stricter
+	 * limit before enforcing it. Defaults to the global `mode`.
+	 */
+	mode?: RateLimitMode;
+	/**
+	 * Precedence of this rule when several patterns match a path. Rules with
+	 * a higher priority win over more specific ones; for multiple limits,
+	 * the highest priority of them applies.
+	 * @default 0
+	 */
+	priority?: number;
+}
+
+/**
+ * A limit a request was evaluated against.
+ */
+export interface RateLimitEvent {
+	/**
+	 * Requester the limit is counted for: an IP address (or subnet),
+	 * `user:<id>`, `key:<key>` or `body:<field>:<hash>`.
+	 */
+	identifier: string;
+	path: string;
+	/**
+	 * Pattern of the matched `customRules` entry, `null` for the default
+	 * limits.
+	 */
+	pattern: string | null;
+	/**
+	 * Window of the limit in seconds.
+	 */
 	window: number;
-	max: number;
+	limit: number;
+	remaining: number;
+	retryAfter?: number;
+	/**
+	 * Session of the requester, or `null` when unauthenticated.
+	 */
+	session: RateLimitSession | null;
+}
+
+export interface RateLimitLimitedEvent extends RateLimitEvent {
+	code: "RATE_LIMITED" | "LOCKED_OUT" | "STORAGE_UNAVAILABLE";
+}
+
+export interface RateLimitStorageErrorEvent {
+	error: unknown;
+	/**
+	 * Requester of the limit the storage failed for.
+	 */
+	identifier: string;
+	path: string;
+	pattern: string | null;
+	session: RateLimitSession | null;
+}
+
+/**
+ * The `"hybrid"` storage answers checks from local memory and writes
+ * increments to the shared `backend` in batches, trading accuracy across
+ * instances for latency. See the README for its accuracy bounds.
+ */
+export interface RateLimitHybridOptions {
+	/**
+	 * Shared storage the local counters are synced with.
+	 * @default "secondary-storage"
+	 */
+	backend?: "database" | "secondary-storage";
+	/**
+	 * Milliseconds between syncs with the backend. Longer intervals mean
+	 * fewer backend calls but larger overshoot across instances.
+	 * @default 1000
+	 */
+	syncInterval?: number;
+}
+
+export interface RateLimitMemoryOptions {
+	/**
+	 * Maximum number of keys kept in memory. Beyond it, the least recently
+	 * used key is evicted, which resets its limits. Bounds memory when many
+	 * distinct identifiers are seen, e.g. requests from spoofed or rotating
+	 * IP addresses.
+	 * @default 100000
+	 */
+	maxKeys?: number;
+	/**
+	 * Milliseconds between sweeps removing expired entries.
+	 * @default 60000
+	 */
+	sweepInterval?: number;
+}
+
+export interface RateLimitDatabaseOptions {
+	/**
+	 * Milliseconds between runs of the job deleting expired rows, or `false`
+	 * to only clean up through `auth.api.cleanupRateLimits()`.
+	 * @default 3600000
+	 */
+	cleanupInterval?: number | false;
+	/**
+	 * Rows deleted per query by the cleanup.
+	 * @default 1000
+	 */
+	cleanupBatchSize?: number;
+}
+
+export interface RateLimitPathOptions {
+	/**
+	 * Lower-case paths, for apps whose routes are case-insensitive. Rule
+	 * patterns must then be written in lower case.
+	 * @default false
+	 */
+	lowercase?: boolean;
+	/**
+	 * Decode percent-encoded characters once, except `%2F`, which is kept
+	 * so an encoded slash does not add a segment.
+	 * @default true
+	 */
+	decode?: boolean;
+}
+
+export interface RateLimitMetricsOptions {
+	/**
+	 * Expose the metrics in the Prometheus text format at
+	 * `GET /rate-limiter/metrics`. The endpoint is not authenticated, so
+	 * restrict access to it at your proxy if rule patterns are sensitive.
+	 * @default false
+	 */
+	endpoint?: boolean;
+	/**
+	 * Upper bounds (in seconds) of the check latency histogram buckets.
+	 * @default [0.001, 0.0025, 0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 1]
+	 */
+	buckets?: number[];
 }
 
 export interface RateLimiterOptions {
@@ -14,16 +322,80 @@ export interface RateLimiterOptions {
 	 * @default 100
 	 */
 	max?: number;
+	/**
+	 * Default algorithm used to count requests.
+	 * @default "fixed-window"
+	 */
+	algorithm?: RateLimitAlgorithm;
+	/**
+	 * Default refill rate in tokens per second (`"token-bucket"` only).
+	 * @default max / window
+	 */
+	refillRate?: number;
+	/**
+	 * Default burst size (`"token-bucket"` and `"gcra"` only).
+	 * @default max
+	 */
+	burst?: number;
 	/**
 	 * Storage backend for rate limit data.
 	 *
 	 * - `"memory"` — in-process Map (default, not shared across instances)
 	 * - `"database"` — persisted to the database using the `rateLimit` model
 	 * - `"secondary-storage"` — uses the configured secondary storage (e.g. Redis)
+	 * - `"hybrid"` — counts in memory and syncs with a shared backend in the
+	 *   background (see `hybrid`)
+	 * - a {@link RateLimitStorage} object — your own implementation
 	 *
 	 * @default "memory"
 	 */
-	storage?: "memory" | "database" | "secondary-storage";
+	storage?:
+		| "memory"
+		| "database"
+		| "secondary-storage"
+		| "hybrid"
+		| RateLimitStorage;
+	/**
+	 * Options of the `"hybrid"` storage.
+	 */
+	hybrid?: RateLimitHybridOptions;
+	/**
+	 * Options of the `"database"` storage (also used by `"hybrid"` with the
+	 * database backend).
+	 */
+	database?: RateLimitDatabaseOptions;
+	/**
+	 * Options of the in-memory storage, used for `storage: "memory"` and as
+	 * the fallback while the `circuitBreaker` is open.
+	 */
+	memory?: RateLimitMemoryOptions;
+	/**
+	 * What to do with a request when the storage fails or times out.
+	 *
+	 * - `"allow"` — let the request through (fail open, default)
+	 * - `"deny"` — reject it with a `STORAGE_UNAVAILABLE` error (fail closed,
+	 *   a 503 for endpoints covered by `enforce`)
+	 *
+	 * @default "allow"
+	 */
+	onStorageFailure?: "allow" | "deny";
+	/**
+	 * Milliseconds after which a call to the `"database"`,
+	 * `"secondary-storage"` or custom backend counts as failed.
+	 * @default 1000
+	 */
+	storageTimeout?: number;
+	/**
+	 * Fall back to in-memory limiting while the `"database"`,
+	 * `"secondary-storage"` or custom backend is unhealthy: after `threshold`
+	 * consecutive failures, requests are limited per instance for `cooldown`
+	 * seconds before the backend is tried again. `false` disables the
+	 * fallback, so every request during an outage is subject to
+	 * `onStorageFailure`.
+	 *
+	 * @default { threshold: 5, cooldown: 30 }
+	 */
+	circuitBreaker?: { threshold?: number; cooldown?: number } | false;
 	/**
 	 * How to identify the requester for rate limiting.
 	 *
@@ -36,39 +408,369 @@ export interface RateLimiterOptions {
 	 * @default "ip"
 	 */
 	detection?: "ip" | "user" | "ip-and-user";
+	/**
+	 * Prefix length IPv6 addresses are grouped by for IP-based detection, so
+	 * a client cannot get a fresh quota from every address of its allocation.
+	 * Use `128` to count every address separately.
+	 * @default 64
+	 */
+	ipv6Subnet?: number;
+	/**
+	 * Prefix length IPv4 addresses are grouped by for IP-based detection,
+	 * e.g. `24` to count a whole /24 block as one client.
+	 * @default 32
+	 */
+	ipv4Subnet?: number;
+	/**
+	 * Custom identifier for requests, e.g. an API key header or organization
+	 * ID. Falls back to `detection` when it returns `null`.
+	 *
+	 * @example
+	 * ```ts
+	 * keyGenerator: ({ headers }) => headers?.get("x-api-key") ?? null
+	 * ```
+	 */
+	keyGenerator?: RateLimitKeyGenerator;
+	/**
+	 * IPv4/IPv6 addresses and CIDR blocks that are never rate limited, e.g.
+	 * internal monitoring or an office range.
+	 *
+	 * @example
+	 * ```ts
+	 * allowlist: ["127.0.0.1", "10.0.0.0/8", "2001:db8::/32"]
+	 * ```
+	 */
+	allowlist?: string[];
+	/**
+	 * IPv4/IPv6 addresses and CIDR blocks whose requests are always rejected
+	 * with a `BLOCKED` error. Takes precedence over `allowlist`.
+	 */
+	denylist?: string[];
+	/**
+	 * Automatically enforce rate limits on Better Auth's own endpoints
+	 * (sign-in, sign-up, forget-password, ...) through a before hook.
+	 * Rejected requests fail with a 429 `RATE_LIMITED` error.
+	 *
+	 * - `true` — enforce on every endpoint except `/rate-limiter/*`
+	 * - `string[]` — enforce on endpoints matching these path patterns
+	 *   (same syntax as `customRules`, including a method prefix, relative
+	 *   to the auth base path)
+	 *
+	 * Limits are resolved through `customRules` like any other path.
+	 *
+	 * @default false
+	 */
+	enforce?: boolean | string[];
+	/**
+	 * Lock out requesters that repeatedly exceed their limits, for an
+	 * exponentially increasing duration. Rejected requests fail with a
+	 * `LOCKED_OUT` error while locked out.
+	 *
+	 * @example
+	 * ```ts
+	 * // Block for 1, 2, 4, ... minutes (up to a day) after every 3 violations
+	 * penalty: { threshold: 3, duration: 60, multiplier: 2 }
+	 * ```
+	 */
+	penalty?: RateLimitPenalty;
+	/**
+	 * Default mode of every limit. Use `"shadow"` to roll out rate limiting
+	 * in report-only mode: requests are counted and evaluated but never
+	 * rejected, and `onShadowLimited` reports who would have been.
+	 * @default "enforce"
+	 */
+	mode?: RateLimitMode;
+	/**
+	 * Called for every limit in shadow mode that would have rejected a
+	 * request, e.g. to log or count the impact of a new limit.
+	 */
+	onShadowLimited?: (event: RateLimitEvent) => void | Promise<void>;
+	/**
+	 * Called when a request is rejected by a limit, with the limit that
+	 * rejected it. Not called for `denylist` rejections or `peek` checks.
+	 *
+	 * @example
+	 * ```ts
+	 * onLimited: ({ identifier, pattern, session }) => {
+	 *   audit.log("rate_limited", { identifier, pattern, userId: session?.user.id });
+	 * }
+	 * ```
+	 */
+	onLimited?: (event: RateLimitLimitedEvent) => void | Promise<void>;
+	/**
+	 * Called when a request counted against a limit is allowed, with the
+	 * limit closest to rejecting it. Not called for `peek` checks.
+	 */
+	onAllowed?: (event: RateLimitEvent) => void | Promise<void>;
+	/**
+	 * Called when the storage fails while checking a limit, before
+	 * `onStorageFailure` is applied.
+	 */
+	onStorageError?: (event: RateLimitStorageErrorEvent) => void | Promise<void>;
+	/**
+	 * In-process counters of checks, allowed and rejected requests, storage
+	 * errors and check latency per matched rule, available through
+	 * `auth.api.getRateLimitMetrics()` and optionally over HTTP.
+	 */
+	metrics?: RateLimitMetricsOptions;
+	/**
+	 * Who may use the admin endpoints (`/rate-limiter/status`, `/reset` and
+	 * `/list`).
+	 *
+	 * @default ({ user }) => user.role === "admin"
+	 */
+	isAdmin?: (session: RateLimitSession) => boolean | Promise<boolean>;
 	/**
 	 * Custom per-path rate limit rules.
 	 *
-	 * Keys are path patterns (supports `*` and `**` wildcards).
-	 * Values are either a `{ window, max }` override or `false` to disable
-	 * rate limiting for that path.
+	 * Keys are path patterns: `:name` matches one segment, `*` any characters
+	 * within a segment and `**` any characters across segments. When several
+	 * patterns match, the highest `priority` wins, then the most specific
+	 * pattern (segments compared left to right: exact > `:param` > `*` >
+	 * `**`), then the first declared.
+	 *
+	 * Prefix a pattern with an HTTP method (`"POST /api/comments"`) to limit
+	 * only that method. A method-specific rule takes precedence over an
+	 * equally specific rule without one, counts requests separately, and
+	 * never matches when the method of the request is unknown.
+	 *
+	 * Values are either a `{ window, max }` override (optionally with its own
+	 * `algorithm`, `refillRate` and `burst`), an array of such limits that
+	 * must all be satisfied, or `false` to disable rate limiting for that path.
+	 * `window` and `max` may be functions resolved per request.
 	 *
 	 * @example
 	 * ```ts
 	 * customRules: {
 	 *   "/api/ai/*": { window: 60, max: 10 },
+	 *   "/api/users/:id": { window: 60, max: 30 },
+	 *   "POST /api/comments": { window: 60, max: 5 },
+	 *   // 10 per second AND 1000 per hour
+	 *   "/api/search": [
+	 *     { window: 1, max: 10 },
+	 *     { window: 3600, max: 1000 },
+	 *   ],
+	 *   "/api/export": {
+	 *     window: 3600,
+	 *     max: ({ session }) => (session?.user.plan === "pro" ? 100 : 10),
+	 *   },
 	 *   "/api/health": false,
 	 * }
 	 * ```
 	 */
-	customRules?: Record<string, RateLimitRule | false>;
+	customRules?: Record<string, RateLimitRule | RateLimitRule[] | false>;
+	/**
+	 * Normalize checked paths before matching rules and building keys, so
+	 * `/api/x/`, `/api/x?a=1`, `//api/x` and `/api/y/../x` count as
+	 * `/api/x`: the query and fragment are removed, repeated slashes
+	 * collapsed, `.` and `..` segments resolved and a trailing slash
+	 * removed. `false` uses paths verbatim.
+	 *
+	 * @default { lowercase: false, decode: true }
+	 */
+	paths?: RateLimitPathOptions | false;
 }
 
 export interface RateLimitEntry {
 	key: string;
+	/**
+	 * Requests in the current window, or tokens left for `"token-bucket"`.
+	 */
 	count: number;
 	/**
 	 * Timestamp (ms) of when the current rate-limit window started.
 	 * The window resets when `Date.now() - lastRequest > windowMs`.
+	 *
+	 * Holds the last refill time for `"token-bucket"` and the theoretical
+	 * arrival time for `"gcra"`.
 	 */
 	lastRequest: number;
+	/**
+	 * Requests in the previous window (`"sliding-window"` only).
+	 */
+	previousCount?: number;
+	/**
+	 * Timestamp (ms) until which the requester is locked out (`penalty` only).
+	 */
+	blockedUntil?: number;
+}
+
+export interface RateLimitListOptions {
+	/**
+	 * Only list entries whose key starts with this prefix.
+	 */
+	prefix?: string;
+	limit: number;
+	offset: number;
+}
+
+/**
+ * Storage for rate limit state. Pass an implementation as `storage` to keep
+ * limits in a backend without built-in support, and check it with
+ * `runRateLimitStorageTests` from `better-auth-rate-limiter/testing`.
+ */
+export interface RateLimitStorage {
+	/**
+	 * Version of this interface the storage implements, checked at startup.
+	 * See `RATE_LIMIT_STORAGE_VERSION`.
+	 * @default 1
+	 */
+	version?: number;
+	get(key: string): Promise<RateLimitEntry | null>;
+	/**
+	 * @param update - whether an entry for `key` already exists
+	 * @param ttl - seconds until the entry can be discarded, derived from
+	 * the limit that wrote it
+	 */
+	set(
+		key: string,
+		value: RateLimitEntry,
+		update: boolean,
+		ttl: number,
+	): Promise<void>;
+	/**
+	 * Atomically adds `amount` to the fixed-window counter for `key` and
+	 * returns the entry after the increment. A new window (`count: amount`) is
+	 * started when there is no entry or the current window is older than
+	 * `windowMs`.
+	 *
+	 * A negative `amount` refunds requests: it never starts a new window and
+	 * the count does not go below zero.
+	 *
+	 * @param amount - defaults to `1`
+	 */
+	increment(
+		key: string,
+		windowMs: number,
+		amount?: number,
+	): Promise<RateLimitEntry>;
+	delete(key: string): Promise<void>;
+	/**
+	 * Lists stored entries ordered by key. Not available for secondary
+	 * storage, which has no way to enumerate keys.
+	 */
+	list?(options: RateLimitListOptions): Promise<RateLimitEntry[]>;
+}
+
+export interface RateLimitTierResult {
+	success: boolean;
+	/**
+	 * Window of this tier in seconds.
+	 */
+	window: number;
+	limit: number;
+	remaining: number;
+	/**
+	 * Units the request consumed from this tier, or would consume with
+	 * `peek`.
+	 */
+	cost: number;
+	resetAt: number;
+	retryAfter?: number;
 }
 
 export interface CheckRateLimitResponse {
 	success: boolean;
 	limit: number;
 	remaining: number;
+	/**
+	 * Units the request consumed (the `cost` passed to `checkRateLimit` or
+	 * the rule's cost), or would consume with `peek`. Missing when no limit
+	 * applied.
+	 */
+	cost?: number;
 	retryAfter?: number;
 	resetAt?: number;
 	message?: string;
+	/**
+	 * Why the request was rejected: `"RATE_LIMITED"` when over the limit,
+	 * `"LOCKED_OUT"` while locked out by a `penalty`, `"BLOCKED"` when the IP
+	 * is on the `denylist`, `"STORAGE_UNAVAILABLE"` when the storage failed
+	 * and `onStorageFailure` is `"deny"`.
+	 */
+	code?: keyof typeof RATE_LIMITER_ERROR_CODES;
+	/**
+	 * The request was allowed only because the limit that would have
+	 * rejected it is in shadow mode. `code`, `retryAfter` and the other
+	 * fields then describe that limit.
+	 */
+	wouldHaveBeenLimited?: boolean;
+	/**
+	 * Result of every tier when the matched rule defines multiple limits.
+	 * The top-level fields report the most restrictive tier.
+	 */
+	tiers?: RateLimitTierResult[];
+}
+
+export interface RefundRateLimitResponse {
+	success: boolean;
+}
+
+export interface CleanupRateLimitsResponse {
+	/**
+	 * Number of expired rows deleted.
+	 */
+	deleted: number;
+}
+
+export interface RateLimitStatusResponse {
+	/**
+	 * Stored entries of every limit of the rule, including lockouts
+	 * (`:penalty` keys). Empty when the requester has no state.
+	 */
+	entries: RateLimitEntry[];
+}
+
+export interface ResetRateLimitResponse {
+	success: boolean;
+}
+
+export interface ListRateLimitsResponse {
+	entries: RateLimitEntry[];
+}
+
+export interface RateLimitRuleMetrics {
+	/**
+	 * Pattern of the matched `customRules` entry, `"default"` for the
+	 * default limits.
+	 */
+	rule: string;
+	storage: string;
+	/**
+	 * Checks, excluding `peek` checks.
+	 */
+	checks: number;
+	allowed: number;
+	limited: number;
+	storageErrors: number;
+	/**
+	 * Histogram of the check duration in seconds. Bucket counts are
+	 * cumulative, as in Prometheus.
+	 */
+	latency: {
+		buckets: { le: number; count: number }[];
+		sum: number;
+		count: number;
+	};
+}
+
+export interface RateLimitMemoryStats {
+	/**
+	 * Keys currently stored, including expired ones not yet swept.
+	 */
+	keys: number;
+	maxKeys: number;
+	/**
+	 * Keys evicted because `maxKeys` was reached.
+	 */
+	evictions: number;
+}
+
+export interface RateLimitMetricsResponse {
+	rules: RateLimitRuleMetrics[];
+	/**
+	 * Stats of the in-memory storage (with other backends, the circuit
+	 * breaker fallback).
+	 */
+	memory: RateLimitMemoryStats;
 }
@@ -0,0 +1,125 @@
+import { getTestInstance } from "better-auth/test";
+import { describe, expect, it, vi } from "vitest";
+import { rateLimiter } from "../src";
+import { createDatabaseStorage } from "../src/storage";
+
+const tick = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+function createSlowSecondaryStorage() {
+	const store = new Map<string, string>();
+	return {
+		get: async (key: string) => {
+			await tick();
+			return store.get(key) ?? null;
+		},
+		set: async (key: string, value: string) => {
+			await tick();
+			store.set(key, value);
+		},
+		delete: async (key: string) => {
+			store.delete(key);
+		},
+	};
+}
+
+describe("concurrency", () => {
+	const parallel = 20;
+	const max = 5;
+
+	describe.each(["memory", "database", "secondary-storage", "hybrid"] as const)(
+		"%s storage",
+		(storage) => {
+			it.each([
+				"fixed-window",
+				"sliding-window",
+				"token-bucket",
+				"gcra",
+			] as const)(
+				"should never admit more than max with parallel checks (%s)",
+				async (algorithm) => {
+					const { auth } = await getTestInstance({
+						secondaryStorage: createSlowSecondaryStorage(),
+						plugins: [rateLimiter({ window: 60, max, storage, algorithm })],
+					});
+
+					const results = await Promise.all(
+						Array.from({ length: parallel }, () =>
+							auth.api.checkRateLimit({
+								headers: new Headers({ "x-forwarded-for": "10.1.0.1" }),
+								body: { path: "/api/concurrent" },
+							}),
+						),
+					);
+
+					const allowed = results.filter((r) => r.success);
+					expect(allowed).toHaveLength(max);
+				},
+			);
+		},
+	);
+
+	it("should not time out requests queued behind a burst on one key", async () => {
+		const sleep = (ms: number) =>
+			new Promise((resolve) => setTimeout(resolve, ms));
+		const store = new Map<string, string>();
+		const log = vi.fn();
+		const onStorageError = vi.fn();
+		const { auth } = await getTestInstance({
+			logger: { log },
+			secondaryStorage: {
+				get: async (key) => {
+					await sleep(10);
+					return store.get(key) ?? null;
+				},
+				set: async (key, value) => {
+					await sleep(10);
+					store.set(key, value);
+				},
+				delete: async (key) => {
+					store.delete(key);
+				},
+			},
+			plugins: [
+				rateLimiter({ max, storage: "secondary-storage", onStorageError }),
+			],
+		});
+
+		// 100 increments of 20ms each queue for longer than `storageTimeout`
+		const results = await Promise.all(
+			Array.from({ length: 100 }, () =>
+				auth.api.checkRateLimit({
+					headers: new Headers({ "x-forwarded-for": "10.1.0.2" }),
+					body: { path: "/api/burst" },
+				}),
+			),
+		);
+
+		expect(results.filter((r) => r.success)).toHaveLength(max);
+		// Queueing is neither a storage failure nor one towards the breaker
+		expect(onStorageError).not.toHaveBeenCalled();
+		expect(log).not.toHaveBeenCalledWith(
+			"warn",
+			expect.stringContaining("Rate limit storage is failing"),
+		);
+	});
+
+	it("should not lose increments across instances sharing a database", async () => {
+		const { auth } = await getTestInstance({
+			plugins: [rateLimiter({ storage: "database" })],
+		});
+		const ctx = await auth.$context;
+
+		// Separate storages do not share the in-process lock, so only the
+		// conditional update keeps the counter consistent.
+		const instances = [createDatabaseStorage(ctx), createDatabaseStorage(ctx)];
+
+		const entries = await Promise.all(
+			Array.from({ length: parallel }, (_, i) =>
+				instances[i % instances.length]!.increment("rl:shared", 60_000),
+			),
+		);
+
+		const counts = entries.map((e) => e.count).sort((a, b) => a - b);
+		expect(counts).toEqual(Array.from({ length: parallel }, (_, i) => i + 1));
+	});
+});
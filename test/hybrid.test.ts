@@ -0,0 +1,164 @@
+import { getTestInstance } from "better-auth/test";
+import { describe, expect, it, vi } from "vitest";
+import { rateLimiter } from "../src";
+import { createHybridStorage, createMemoryStorage } from "../src/storage";
+
+const logger = {
+	error: vi.fn(),
+} as unknown as Parameters<typeof createHybridStorage>[2];
+
+/**
+ * Instances of the hybrid storage sharing one backend, as they would share
+ * Redis or a database across servers.
+ */
+function createInstances(count: number) {
+	const shared = createMemoryStorage();
+	const instances = Array.from({ length: count }, () =>
+		createHybridStorage(shared, { syncInterval: 60_000 }, logger),
+	);
+	return { shared, instances };
+}
+
+const flushAll = async (instances: { flush(): Promise<void> }[]) => {
+	for (const instance of instances) {
+		await instance.flush();
+	}
+};
+
+describe("hybrid storage", () => {
+	it("should count locally and sync increments in batches", async () => {
+		const { shared, instances } = createInstances(2);
+		const [a, b] = instances as [(typeof instances)[0], (typeof instances)[0]];
+		const increment = vi.spyOn(shared, "increment");
+
+		for (let i = 0; i < 3; i++) {
+			await a.increment("rl:key", 60_000);
+		}
+		expect((await b.increment("rl:key", 60_000)).count).toBe(1);
+		expect(increment).not.toHaveBeenCalled();
+
+		await flushAll(instances);
+		expect(increment).toHaveBeenCalledTimes(2);
+		expect((await shared.get("rl:key"))?.count).toBe(4);
+
+		// Both instances see each other's increments after the next sync
+		await flushAll(instances);
+		expect((await a.increment("rl:key", 60_000)).count).toBe(5);
+		expect((await b.increment("rl:key", 60_000)).count).toBe(5);
+
+		await flushAll(instances);
+		await flushAll(instances);
+		expect((await a.increment("rl:key", 60_000)).count).toBe(7);
+	});
+
+	it("should read the shared count when a key is first seen", async () => {
+		const { shared, instances } = createInstances(1);
+		const [instance] = instances as [(typeof instances)[0]];
+		await shared.increment("rl:key", 60_000, 5);
+		const get = vi.spyOn(shared, "get");
+
+		expect((await instance.increment("rl:key", 60_000)).count).toBe(6);
+		expect((await instance.increment("rl:key", 60_000)).count).toBe(7);
+		// Over-limit keys are rejected without another round trip
+		expect(get).toHaveBeenCalledTimes(1);
+	});
+
+	it("should admit at most instances * max in a window", async () => {
+		const max = 5;
+		const { instances } = createInstances(3);
+
+		let admitted = 0;
+		for (let round = 0; round < 4; round++) {
+			for (const instance of instances) {
+				for (let i = 0; i < 3; i++) {
+					const entry = await instance.increment("rl:key", 60_000);
+					if (entry.count <= max) {
+						admitted++;
+					}
+				}
+			}
+			await flushAll(instances);
+		}
+
+		expect(admitted).toBeGreaterThanOrEqual(max);
+		expect(admitted).toBeLessThanOrEqual(instances.length * max);
+		// Once synced, every instance rejects
+		for (const instance of instances) {
+			expect(
+				(await instance.increment("rl:key", 60_000)).count,
+			).toBeGreaterThan(max);
+		}
+	});
+
+	it("should drop pending increments when the window ends before a sync", async () => {
+		vi.useFakeTimers();
+
+		const { shared, instances } = createInstances(1);
+		const [instance] = instances as [(typeof instances)[0]];
+
+		await instance.increment("rl:key", 10_000, 3);
+		vi.advanceTimersByTime(10_000);
+		await instance.flush();
+		expect(await shared.get("rl:key")).toBeNull();
+		expect((await instance.increment("rl:key", 10_000)).count).toBe(1);
+
+		vi.useRealTimers();
+	});
+
+	it("should keep pending increments when a sync fails", async () => {
+		const { shared, instances } = createInstances(1);
+		const [instance] = instances as [(typeof instances)[0]];
+
+		await instance.increment("rl:key", 60_000, 2);
+		vi.spyOn(shared, "increment").mockRejectedValueOnce(new Error("down"));
+		await instance.flush();
+		expect(await shared.get("rl:key")).toBeNull();
+
+		await instance.flush();
+		expect((await shared.get("rl:key"))?.count).toBe(2);
+	});
+
+	it("should sync instances through the plugin", async () => {
+		vi.useFakeTimers();
+
+		const store = new Map<string, string>();
+		const secondaryStorage = {
+			get: async (key: string) => store.get(key) ?? null,
+			set: async (key: string, value: string) => {
+				store.set(key, value);
+			},
+			delete: async (key: string) => {
+				store.delete(key);
+			},
+		};
+		const createInstance = () =>
+			getTestInstance({
+				secondaryStorage,
+				plugins: [
+					rateLimiter({
+						window: 60,
+						max: 2,
+						storage: "hybrid",
+						hybrid: { syncInterval: 500 },
+					}),
+				],
+			});
+		const servers = [await createInstance(), await createInstance()];
+		const check = (index: number) =>
+			servers[index]!.auth.api.checkRateLimit({
+				headers: new Headers({ "x-forwarded-for": "10.2.0.1" }),
+				body: { path: "/api/hybrid" },
+			});
+
+		expect((await check(0)).success).toBe(true);
+		expect((await check(1)).success).toBe(true);
+		// The first instance to sync only sees its own increment, so it takes
+		// a second sync for both to see the total.
+		await vi.advanceTimersByTimeAsync(1000);
+
+		expect((await check(0)).success).toBe(false);
+		expect((await check(1)).success).toBe(false);
+
+		vi.useRealTimers();
+	});
+});
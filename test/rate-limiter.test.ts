@@ -1,6 +1,37 @@
+import type { AuthContext } from "@better-auth/core";
 import { getTestInstance } from "better-auth/test";
 import { describe, expect, it, vi } from "vitest";
+import type { CheckRateLimitResponse, RateLimiterOptions } from "../src";
 import { rateLimiter } from "../src";
+import { rateLimiterClient } from "../src/client";
+
+interface RateLimiterAuth {
+	api: {
+		checkRateLimit: (context: {
+			headers: Headers;
+			body: { path: string };
+		}) => Promise<CheckRateLimitResponse>;
+	};
+}
+
+function createSecondaryStorage() {
+	const store = new Map<string, { value: string; expiresAt: number }>();
+	return {
+		get: async (key: string) => {
+			const entry = store.get(key);
+			if (!entry || Date.now() >= entry.expiresAt) {
+				return null;
+			}
+			return entry.value;
+		},
+		set: async (key: string, value: string, ttl?: number) => {
+			store.set(key, { value, expiresAt: Date.now() + (ttl ?? 60) * 1000 });
+		},
+		delete: async (key: string) => {
+			store.delete(key);
+		},
+	};
+}
 
 describe("rate-limiter plugin", () => {
 	describe("basic rate limiting", () => {
@@ -204,6 +235,230 @@ describe("rate-limiter plugin", () => {
 			});
 			expect(result.limit).toBe(50);
 		});
+
+		describe("precedence", () => {
+			const limitFor = async (
+				customRules: NonNullable<RateLimiterOptions["customRules"]>,
+				path: string,
+			) => {
+				const { auth } = await getTestInstance({
+					plugins: [rateLimiter({ window: 60, max: 100, customRules })],
+				});
+				const result = await auth.api.checkRateLimit({
+					headers: new Headers({ "x-forwarded-for": "10.0.19.1" }),
+					body: { path },
+				});
+				return result.limit;
+			};
+
+			it("should prefer exact paths over wildcards regardless of order", async () => {
+				const customRules = {
+					"/api/ai/*": { window: 60, max: 10 },
+					"/api/ai/generate": { window: 3600, max: 5 },
+				};
+				expect(await limitFor(customRules, "/api/ai/generate")).toBe(5);
+				expect(await limitFor(customRules, "/api/ai/chat")).toBe(10);
+			});
+
+			it("should rank exact > param > * > ** segment by segment", async () => {
+				const customRules = {
+					"/api/**": { window: 60, max: 1 },
+					"/api/*/posts": { window: 60, max: 2 },
+					"/api/:id/posts": { window: 60, max: 3 },
+					"/api/users/posts": { window: 60, max: 4 },
+				};
+				expect(await limitFor(customRules, "/api/users/posts")).toBe(4);
+				expect(await limitFor(customRules, "/api/42/posts")).toBe(3);
+				expect(await limitFor(customRules, "/api/42/comments")).toBe(1);
+				// Empty segments are collapsed before matching
+				expect(await limitFor(customRules, "/api//posts")).toBe(1);
+
+				const wildcards = {
+					"/api/**": { window: 60, max: 1 },
+					"/api/*/posts": { window: 60, max: 2 },
+				};
+				expect(await limitFor(wildcards, "/api/42/posts")).toBe(2);
+			});
+
+			it("should match :param segments", async () => {
+				const customRules = {
+					"/api/users/:id": { window: 60, max: 7 },
+				};
+				expect(await limitFor(customRules, "/api/users/42")).toBe(7);
+				expect(await limitFor(customRules, "/api/users/42/posts")).toBe(100);
+				expect(await limitFor(customRules, "/api/users/")).toBe(100);
+			});
+
+			it("should let a higher priority win over a more specific pattern", async () => {
+				const customRules = {
+					"/api/ai/generate": { window: 60, max: 5 },
+					"/api/ai/**": { window: 60, max: 1, priority: 1 },
+				};
+				expect(await limitFor(customRules, "/api/ai/generate")).toBe(1);
+			});
+
+			it("should warn about unreachable rules", async () => {
+				const log = vi.fn();
+				await getTestInstance({
+					logger: { log },
+					plugins: [
+						rateLimiter({
+							customRules: {
+								"/api/users/:id": { window: 60, max: 5 },
+								"/api/users/:userId": { window: 60, max: 5 },
+								"/api/**": { window: 60, max: 1, priority: 1 },
+								"/api/ai/*": [{ window: 60, max: 5 }],
+								"/health": false,
+							},
+						}),
+					],
+				});
+
+				const warnings = log.mock.calls
+					.filter(([level]) => level === "warn")
+					.map(([, message]) => message);
+				expect(warnings).toContainEqual(
+					expect.stringContaining(
+						'"/api/users/:id" is unreachable: "/api/**" takes precedence',
+					),
+				);
+				expect(warnings).toContainEqual(
+					expect.stringContaining(
+						'"/api/users/:userId" is unreachable: "/api/**"',
+					),
+				);
+				expect(warnings).toContainEqual(
+					expect.stringContaining('"/api/ai/*" is unreachable'),
+				);
+				expect(
+					warnings.filter((message) => message.includes("unreachable")),
+				).toHaveLength(3);
+			});
+		});
+
+		describe("methods", () => {
+			it("should limit each method of a path separately", async () => {
+				const { auth } = await getTestInstance({
+					plugins: [
+						rateLimiter({
+							window: 60,
+							max: 100,
+							storage: "memory",
+							customRules: {
+								"/api/comments": { window: 60, max: 10 },
+								"POST /api/comments": { window: 60, max: 1 },
+							},
+						}),
+					],
+				});
+				const check = (method?: string) =>
+					auth.api.checkRateLimit({
+						headers: new Headers({ "x-forwarded-for": "10.0.20.1" }),
+						body: { path: "/api/comments", method },
+					});
+
+				expect(await check("POST")).toMatchObject({ success: true, limit: 1 });
+				expect(await check("post")).toMatchObject({ success: false, limit: 1 });
+				expect(await check("GET")).toMatchObject({
+					success: true,
+					limit: 10,
+					remaining: 9,
+				});
+				// Without a method only the method-less rule matches
+				expect(await check()).toMatchObject({ limit: 10, remaining: 8 });
+			});
+
+			it("should default the method to the incoming request", async () => {
+				const { auth } = await getTestInstance({
+					plugins: [
+						rateLimiter({
+							window: 60,
+							max: 100,
+							storage: "memory",
+							customRules: {
+								"DELETE /api/posts/:id": { window: 60, max: 2 },
+							},
+						}),
+					],
+				});
+
+				const result = await auth.api.checkRateLimit({
+					request: new Request("http://localhost:3000/api/posts/42", {
+						method: "DELETE",
+						headers: { "x-forwarded-for": "10.0.20.2" },
+					}),
+					headers: new Headers({ "x-forwarded-for": "10.0.20.2" }),
+					body: { path: "/api/posts/42" },
+				});
+				expect(result.limit).toBe(2);
+			});
+
+			it("should match enforced endpoints by their method", async () => {
+				const { auth, testUser } = await getTestInstance({
+					plugins: [
+						rateLimiter({
+							storage: "memory",
+							enforce: ["POST /sign-in/email", "/get-session"],
+							customRules: {
+								"POST /sign-in/email": { window: 60, max: 1 },
+								"POST /get-session": { window: 60, max: 1 },
+							},
+						}),
+					],
+				});
+				const request = (path: string, init: RequestInit = {}) =>
+					auth.handler(
+						new Request(`http://localhost:3000/api/auth${path}`, {
+							...init,
+							headers: {
+								"content-type": "application/json",
+								"x-forwarded-for": "10.0.20.3",
+							},
+						}),
+					);
+				const signIn = () =>
+					request("/sign-in/email", {
+						method: "POST",
+						body: JSON.stringify({
+							email: testUser.email,
+							password: testUser.password,
+						}),
+					});
+
+				expect((await signIn()).status).toBe(200);
+				expect((await signIn()).status).toBe(429);
+				for (let i = 0; i < 3; i++) {
+					expect((await request("/get-session")).status).toBe(200);
+				}
+			});
+
+			it("should only report rules shadowed for the same method", async () => {
+				const log = vi.fn();
+				await getTestInstance({
+					logger: { log },
+					plugins: [
+						rateLimiter({
+							customRules: {
+								"GET /api/**": { window: 60, max: 5, priority: 1 },
+								"POST /api/comments": { window: 60, max: 5 },
+								"GET /api/comments": { window: 60, max: 5 },
+								"/api/comments": { window: 60, max: 5 },
+							},
+						}),
+					],
+				});
+
+				const warnings = log.mock.calls
+					.filter(([level]) => level === "warn")
+					.map(([, message]) => message as string)
+					.filter((message) => message.includes("unreachable"));
+				expect(warnings).toEqual([
+					expect.stringContaining(
+						'"GET /api/comments" is unreachable: "GET /api/**"',
+					),
+				]);
+			});
+		});
 	});
 
 	describe("default configuration", () => {
@@ -282,6 +537,205 @@ describe("rate-limiter plugin", () => {
 		});
 	});
 
+	describe("algorithms", () => {
+		it("should not allow a 2x burst across the window boundary with sliding-window", async () => {
+			vi.useFakeTimers();
+
+			const { auth } = await getTestInstance({
+				plugins: [
+					rateLimiter({
+						window: 10,
+						max: 4,
+						storage: "memory",
+						algorithm: "sliding-window",
+					}),
+				],
+			});
+
+			const first = await auth.api.checkRateLimit({
+				headers: new Headers({ "x-forwarded-for": "10.0.1.1" }),
+				body: { path: "/api/sliding" },
+			});
+			expect(first.success).toBe(true);
+
+			vi.advanceTimersByTime(9_000);
+			for (let i = 0; i < 3; i++) {
+				const r = await auth.api.checkRateLimit({
+					headers: new Headers({ "x-forwarded-for": "10.0.1.1" }),
+					body: { path: "/api/sliding" },
+				});
+				expect(r.success).toBe(true);
+			}
+
+			// Just past the boundary almost all of the previous window still counts
+			vi.advanceTimersByTime(1_500);
+			const r1 = await auth.api.checkRateLimit({
+				headers: new Headers({ "x-forwarded-for": "10.0.1.1" }),
+				body: { path: "/api/sliding" },
+			});
+			expect(r1.success).toBe(false);
+			expect(r1.retryAfter).toBeGreaterThan(0);
+
+			// Halfway through the next window half of the previous count has decayed
+			vi.advanceTimersByTime(5_000);
+			const r2 = await auth.api.checkRateLimit({
+				headers: new Headers({ "x-forwarded-for": "10.0.1.1" }),
+				body: { path: "/api/sliding" },
+			});
+			expect(r2.success).toBe(true);
+
+			vi.useRealTimers();
+		});
+
+		it("should allow a burst and refill tokens over time with token-bucket", async () => {
+			vi.useFakeTimers();
+
+			const { auth } = await getTestInstance({
+				plugins: [
+					rateLimiter({
+						storage: "memory",
+						algorithm: "token-bucket",
+						burst: 3,
+						refillRate: 1,
+					}),
+				],
+			});
+
+			for (let i = 0; i < 3; i++) {
+				const r = await auth.api.checkRateLimit({
+					headers: new Headers({ "x-forwarded-for": "10.0.1.2" }),
+					body: { path: "/api/bucket" },
+				});
+				expect(r.success).toBe(true);
+				expect(r.limit).toBe(3);
+				expect(r.remaining).toBe(2 - i);
+			}
+
+			const limited = await auth.api.checkRateLimit({
+				headers: new Headers({ "x-forwarded-for": "10.0.1.2" }),
+				body: { path: "/api/bucket" },
+			});
+			expect(limited.success).toBe(false);
+			expect(limited.retryAfter).toBe(1);
+
+			vi.advanceTimersByTime(2_000);
+
+			const r1 = await auth.api.checkRateLimit({
+				headers: new Headers({ "x-forwarded-for": "10.0.1.2" }),
+				body: { path: "/api/bucket" },
+			});
+			expect(r1.success).toBe(true);
+			expect(r1.remaining).toBe(1);
+
+			vi.useRealTimers();
+		});
+
+		it("should space requests evenly with gcra", async () => {
+			vi.useFakeTimers();
+
+			const { auth } = await getTestInstance({
+				plugins: [
+					rateLimiter({
+						window: 60,
+						max: 3,
+						storage: "memory",
+						algorithm: "gcra",
+						burst: 1,
+					}),
+				],
+			});
+
+			const r1 = await auth.api.checkRateLimit({
+				headers: new Headers({ "x-forwarded-for": "10.0.1.3" }),
+				body: { path: "/api/gcra" },
+			});
+			expect(r1.success).toBe(true);
+
+			const r2 = await auth.api.checkRateLimit({
+				headers: new Headers({ "x-forwarded-for": "10.0.1.3" }),
+				body: { path: "/api/gcra" },
+			});
+			expect(r2.success).toBe(false);
+			expect(r2.retryAfter).toBe(20);
+
+			vi.advanceTimersByTime(20_000);
+
+			const r3 = await auth.api.checkRateLimit({
+				headers: new Headers({ "x-forwarded-for": "10.0.1.3" }),
+				body: { path: "/api/gcra" },
+			});
+			expect(r3.success).toBe(true);
+
+			vi.useRealTimers();
+		});
+
+		it("should allow a per-rule algorithm override", async () => {
+			const { auth } = await getTestInstance({
+				plugins: [
+					rateLimiter({
+						window: 60,
+						max: 100,
+						storage: "memory",
+						customRules: {
+							"/api/bucket": {
+								window: 60,
+								max: 2,
+								algorithm: "token-bucket",
+								burst: 1,
+							},
+						},
+					}),
+				],
+			});
+
+			const r1 = await auth.api.checkRateLimit({
+				headers: new Headers({ "x-forwarded-for": "10.0.1.4" }),
+				body: { path: "/api/bucket" },
+			});
+			expect(r1.success).toBe(true);
+			expect(r1.limit).toBe(1);
+
+			const r2 = await auth.api.checkRateLimit({
+				headers: new Headers({ "x-forwarded-for": "10.0.1.4" }),
+				body: { path: "/api/bucket" },
+			});
+			expect(r2.success).toBe(false);
+			expect(r2.retryAfter).toBe(30);
+		});
+
+		it.each(["sliding-window", "token-bucket", "gcra"] as const)(
+			"should rate limit with %s using database storage",
+			async (algorithm) => {
+				const { auth } = await getTestInstance({
+					plugins: [
+						rateLimiter({ window: 60, max: 2, storage: "database", algorithm }),
+					],
+				});
+
+				const r1 = await auth.api.checkRateLimit({
+					headers: new Headers({ "x-forwarded-for": "10.0.1.5" }),
+					body: { path: "/api/db-algorithm" },
+				});
+				expect(r1.success).toBe(true);
+				expect(r1.remaining).toBe(1);
+
+				const r2 = await auth.api.checkRateLimit({
+					headers: new Headers({ "x-forwarded-for": "10.0.1.5" }),
+					body: { path: "/api/db-algorithm" },
+				});
+				expect(r2.success).toBe(true);
+				expect(r2.remaining).toBe(0);
+
+				const r3 = await auth.api.checkRateLimit({
+					headers: new Headers({ "x-forwarded-for": "10.0.1.5" }),
+					body: { path: "/api/db-algorithm" },
+				});
+				expect(r3.success).toBe(false);
+				expect(r3.resetAt).toBeGreaterThan(Date.now());
+			},
+		);
+	});
+
 	describe("user-based detection", () => {
 		it("should rate limit by user ID when detection is 'user'", async () => {
 			const { auth, signInWithTestUser } = await getTestInstance({
@@ -534,4 +988,2300 @@ describe("rate-limiter plugin", () => {
 			expect(r3.success).toBe(false);
 		});
 	});
+
+	describe("enforce", () => {
+		it("should reject Better Auth endpoints over the limit with a 429", async () => {
+			const { auth, testUser } = await getTestInstance({
+				plugins: [
+					rateLimiter({
+						storage: "memory",
+						enforce: true,
+						customRules: {
+							"/sign-in/email": { window: 60, max: 2 },
+						},
+					}),
+				],
+			});
+
+			const headers = new Headers({ "x-forwarded-for": "10.0.2.1" });
+			for (let i = 0; i < 2; i++) {
+				await auth.api.signInEmail({
+					headers,
+					body: { email: testUser.email, password: testUser.password },
+				});
+			}
+
+			await expect(
+				auth.api.signInEmail({
+					headers,
+					body: { email: testUser.email, password: testUser.password },
+				}),
+			).rejects.toMatchObject({
+				statusCode: 429,
+				body: { code: "RATE_LIMITED" },
+			});
+		});
+
+		it("should include rate limit headers on rejected responses", async () => {
+			const { auth, testUser } = await getTestInstance({
+				plugins: [
+					rateLimiter({
+						storage: "memory",
+						enforce: true,
+						customRules: {
+							"/sign-in/email": { window: 60, max: 1 },
+						},
+					}),
+				],
+			});
+
+			const signIn = () =>
+				auth.handler(
+					new Request("http://localhost:3000/api/auth/sign-in/email", {
+						method: "POST",
+						headers: {
+							"content-type": "application/json",
+							"x-forwarded-for": "10.0.2.2",
+						},
+						body: JSON.stringify({
+							email: testUser.email,
+							password: testUser.password,
+						}),
+					}),
+				);
+
+			const r1 = await signIn();
+			expect(r1.status).toBe(200);
+
+			const r2 = await signIn();
+			expect(r2.status).toBe(429);
+			expect(r2.headers.get("X-RateLimit-Limit")).toBe("1");
+			expect(r2.headers.get("X-RateLimit-Remaining")).toBe("0");
+			expect(Number(r2.headers.get("Retry-After"))).toBeGreaterThan(0);
+		});
+
+		it("should only enforce on the listed endpoints", async () => {
+			const { auth, testUser } = await getTestInstance({
+				plugins: [
+					rateLimiter({
+						window: 60,
+						max: 1,
+						storage: "memory",
+						enforce: ["/sign-up/*"],
+					}),
+				],
+			});
+
+			const headers = new Headers({ "x-forwarded-for": "10.0.2.3" });
+			for (let i = 0; i < 3; i++) {
+				await auth.api.signInEmail({
+					headers,
+					body: { email: testUser.email, password: testUser.password },
+				});
+			}
+
+			await auth.api.signUpEmail({
+				headers,
+				body: { email: "new1@test.com", password: "password123", name: "A" },
+			});
+			await expect(
+				auth.api.signUpEmail({
+					headers,
+					body: { email: "new2@test.com", password: "password123", name: "B" },
+				}),
+			).rejects.toMatchObject({ statusCode: 429 });
+		});
+
+		it("should not count the check endpoint itself", async () => {
+			const { auth } = await getTestInstance({
+				plugins: [
+					rateLimiter({ window: 60, max: 2, storage: "memory", enforce: true }),
+				],
+			});
+
+			const r1 = await auth.api.checkRateLimit({
+				headers: new Headers({ "x-forwarded-for": "10.0.2.4" }),
+				body: { path: "/api/enforced" },
+			});
+			expect(r1.remaining).toBe(1);
+		});
+	});
+
+	describe("multiple limits", () => {
+		it("should enforce every tier of a rule", async () => {
+			vi.useFakeTimers();
+
+			const { auth } = await getTestInstance({
+				plugins: [
+					rateLimiter({
+						storage: "memory",
+						customRules: {
+							"/api/tiered": [
+								{ window: 1, max: 2 },
+								{ window: 3600, max: 3 },
+							],
+						},
+					}),
+				],
+			});
+
+			const r1 = await auth.api.checkRateLimit({
+				headers: new Headers({ "x-forwarded-for": "10.0.3.1" }),
+				body: { path: "/api/tiered" },
+			});
+			expect(r1.success).toBe(true);
+			expect(r1.limit).toBe(2);
+			expect(r1.remaining).toBe(1);
+			expect(r1.tiers).toHaveLength(2);
+			expect(r1.tiers?.[1]).toMatchObject({
+				success: true,
+				window: 3600,
+				limit: 3,
+				remaining: 2,
+			});
+
+			await auth.api.checkRateLimit({
+				headers: new Headers({ "x-forwarded-for": "10.0.3.1" }),
+				body: { path: "/api/tiered" },
+			});
+
+			// Burst tier trips first
+			const r3 = await auth.api.checkRateLimit({
+				headers: new Headers({ "x-forwarded-for": "10.0.3.1" }),
+				body: { path: "/api/tiered" },
+			});
+			expect(r3.success).toBe(false);
+			expect(r3.limit).toBe(2);
+			expect(r3.retryAfter).toBe(1);
+			expect(r3.tiers?.map((t) => t.success)).toEqual([false, true]);
+
+			vi.advanceTimersByTime(2_000);
+
+			// Burst tier has reset, sustained tier is exhausted
+			const r4 = await auth.api.checkRateLimit({
+				headers: new Headers({ "x-forwarded-for": "10.0.3.1" }),
+				body: { path: "/api/tiered" },
+			});
+			expect(r4.success).toBe(false);
+			expect(r4.limit).toBe(3);
+			expect(r4.retryAfter).toBeGreaterThan(3500);
+			expect(r4.tiers?.map((t) => t.success)).toEqual([true, false]);
+
+			vi.useRealTimers();
+		});
+
+		it("should not report tiers for single-limit rules", async () => {
+			const { auth } = await getTestInstance({
+				plugins: [rateLimiter({ window: 60, max: 5, storage: "memory" })],
+			});
+
+			const result = await auth.api.checkRateLimit({
+				headers: new Headers({ "x-forwarded-for": "10.0.3.2" }),
+				body: { path: "/api/single" },
+			});
+			expect(result.tiers).toBeUndefined();
+		});
+	});
+
+	describe("dynamic limits", () => {
+		it("should resolve max from the session", async () => {
+			const { auth, signInWithTestUser } = await getTestInstance({
+				plugins: [
+					rateLimiter({
+						storage: "memory",
+						detection: "ip-and-user",
+						customRules: {
+							"/api/plan": {
+								window: 60,
+								max: ({ session }) => (session ? 5 : 1),
+							},
+						},
+					}),
+				],
+			});
+
+			const { headers } = await signInWithTestUser();
+
+			const authenticated = await auth.api.checkRateLimit({
+				headers,
+				body: { path: "/api/plan" },
+			});
+			expect(authenticated.limit).toBe(5);
+
+			const anonymous = await auth.api.checkRateLimit({
+				headers: new Headers({ "x-forwarded-for": "10.0.4.1" }),
+				body: { path: "/api/plan" },
+			});
+			expect(anonymous.limit).toBe(1);
+		});
+
+		it("should support async window and max functions", async () => {
+			const { auth } = await getTestInstance({
+				plugins: [
+					rateLimiter({
+						storage: "memory",
+						customRules: {
+							"/api/async": {
+								window: async ({ path }) => (path === "/api/async" ? 30 : 60),
+								max: async () => 1,
+							},
+						},
+					}),
+				],
+			});
+
+			await auth.api.checkRateLimit({
+				headers: new Headers({ "x-forwarded-for": "10.0.4.2" }),
+				body: { path: "/api/async" },
+			});
+			const result = await auth.api.checkRateLimit({
+				headers: new Headers({ "x-forwarded-for": "10.0.4.2" }),
+				body: { path: "/api/async" },
+			});
+			expect(result.success).toBe(false);
+			expect(result.retryAfter).toBeLessThanOrEqual(30);
+		});
+
+		it("should resolve each function once per request", async () => {
+			const max = vi.fn(() => 10);
+			const { auth } = await getTestInstance({
+				plugins: [
+					rateLimiter({
+						storage: "memory",
+						customRules: {
+							"/api/cached": [
+								{ window: 1, max },
+								{ window: 60, max },
+							],
+						},
+					}),
+				],
+			});
+
+			await auth.api.checkRateLimit({
+				headers: new Headers({ "x-forwarded-for": "10.0.4.3" }),
+				body: { path: "/api/cached" },
+			});
+			expect(max).toHaveBeenCalledTimes(1);
+		});
+
+		it.each([
+			["window", { window: () => Number.NaN, max: 5 }],
+			["window", { window: async () => 0, max: 5 }],
+			["max", { window: 60, max: () => undefined as unknown as number }],
+			["max", { window: 60, max: () => 0 }],
+			["max", { window: 60, max: () => 2.5 }],
+		])(
+			"should throw when %s resolves to an invalid value",
+			async (name, rule) => {
+				const { auth } = await getTestInstance({
+					plugins: [
+						rateLimiter({
+							storage: "memory",
+							customRules: { "/api/invalid": rule },
+						}),
+					],
+				});
+
+				await expect(
+					auth.api.checkRateLimit({
+						headers: new Headers({ "x-forwarded-for": "10.0.4.4" }),
+						body: { path: "/api/invalid" },
+					}),
+				).rejects.toThrow(`"${name}" must resolve to a positive`);
+			},
+		);
+	});
+
+	describe("key generator", () => {
+		it("should count requests under the generated key", async () => {
+			const { auth } = await getTestInstance({
+				plugins: [
+					rateLimiter({
+						window: 60,
+						max: 1,
+						storage: "memory",
+						keyGenerator: ({ headers }) => headers?.get("x-api-key") ?? null,
+					}),
+				],
+			});
+
+			// Same API key from different IPs shares one bucket
+			const r1 = await auth.api.checkRateLimit({
+				headers: new Headers({
+					"x-api-key": "key-1",
+					"x-forwarded-for": "10.0.5.1",
+				}),
+				body: { path: "/api/keyed" },
+			});
+			expect(r1.success).toBe(true);
+
+			const r2 = await auth.api.checkRateLimit({
+				headers: new Headers({
+					"x-api-key": "key-1",
+					"x-forwarded-for": "10.0.5.2",
+				}),
+				body: { path: "/api/keyed" },
+			});
+			expect(r2.success).toBe(false);
+
+			const r3 = await auth.api.checkRateLimit({
+				headers: new Headers({
+					"x-api-key": "key-2",
+					"x-forwarded-for": "10.0.5.1",
+				}),
+				body: { path: "/api/keyed" },
+			});
+			expect(r3.success).toBe(true);
+		});
+
+		it("should fall back to detection when the key generator returns null", async () => {
+			const { auth } = await getTestInstance({
+				plugins: [
+					rateLimiter({
+						window: 60,
+						max: 1,
+						storage: "memory",
+						keyGenerator: () => null,
+					}),
+				],
+			});
+
+			const r1 = await auth.api.checkRateLimit({
+				headers: new Headers({ "x-forwarded-for": "10.0.5.3" }),
+				body: { path: "/api/fallback" },
+			});
+			expect(r1.success).toBe(true);
+
+			const r2 = await auth.api.checkRateLimit({
+				headers: new Headers({ "x-forwarded-for": "10.0.5.3" }),
+				body: { path: "/api/fallback" },
+			});
+			expect(r2.success).toBe(false);
+		});
+
+		it("should allow a per-rule key generator", async () => {
+			const { auth } = await getTestInstance({
+				plugins: [
+					rateLimiter({
+						window: 60,
+						max: 100,
+						storage: "memory",
+						customRules: {
+							"/api/tenant": {
+								window: 60,
+								max: 1,
+								keyGenerator: async ({ headers }) =>
+									headers?.get("host")?.split(".")[0] ?? null,
+							},
+						},
+					}),
+				],
+			});
+
+			const r1 = await auth.api.checkRateLimit({
+				headers: new Headers({
+					host: "acme.example.com",
+					"x-forwarded-for": "10.0.5.4",
+				}),
+				body: { path: "/api/tenant" },
+			});
+			expect(r1.success).toBe(true);
+
+			const r2 = await auth.api.checkRateLimit({
+				headers: new Headers({
+					host: "acme.example.com",
+					"x-forwarded-for": "10.0.5.5",
+				}),
+				body: { path: "/api/tenant" },
+			});
+			expect(r2.success).toBe(false);
+		});
+	});
+
+	describe("body field keys", () => {
+		it("should limit attempts per account regardless of source IP", async () => {
+			const { auth } = await getTestInstance({
+				plugins: [
+					rateLimiter({
+						storage: "memory",
+						enforce: ["/sign-in/email"],
+						customRules: {
+							"/sign-in/email": [
+								{ window: 60, max: 10 },
+								{ window: 900, max: 2, bodyField: "email" },
+							],
+						},
+					}),
+				],
+			});
+
+			const signIn = (ip: string, email: string) =>
+				auth.api.signInEmail({
+					headers: new Headers({ "x-forwarded-for": ip }),
+					body: { email, password: "wrong-password" },
+				});
+
+			await expect(signIn("10.0.6.1", "victim@test.com")).rejects.toMatchObject(
+				{ statusCode: 401 },
+			);
+			// Casing is normalized
+			await expect(signIn("10.0.6.2", "Victim@Test.COM")).rejects.toMatchObject(
+				{ statusCode: 401 },
+			);
+			await expect(signIn("10.0.6.3", "victim@test.com")).rejects.toMatchObject(
+				{ statusCode: 429 },
+			);
+
+			// Other accounts are unaffected
+			await expect(signIn("10.0.6.3", "other@test.com")).rejects.toMatchObject({
+				statusCode: 401,
+			});
+		});
+
+		it("should still apply the per-IP limit", async () => {
+			const { auth } = await getTestInstance({
+				plugins: [
+					rateLimiter({
+						storage: "memory",
+						enforce: ["/sign-in/email"],
+						customRules: {
+							"/sign-in/email": [
+								{ window: 60, max: 2 },
+								{ window: 900, max: 5, bodyField: "email" },
+							],
+						},
+					}),
+				],
+			});
+
+			for (const email of ["a@test.com", "b@test.com"]) {
+				await expect(
+					auth.api.signInEmail({
+						headers: new Headers({ "x-forwarded-for": "10.0.6.4" }),
+						body: { email, password: "wrong-password" },
+					}),
+				).rejects.toMatchObject({ statusCode: 401 });
+			}
+
+			await expect(
+				auth.api.signInEmail({
+					headers: new Headers({ "x-forwarded-for": "10.0.6.4" }),
+					body: { email: "c@test.com", password: "wrong-password" },
+				}),
+			).rejects.toMatchObject({ statusCode: 429 });
+		});
+	});
+
+	describe("failed-only counting", () => {
+		it.each([
+			"fixed-window",
+			"sliding-window",
+			"token-bucket",
+			"gcra",
+		] as const)("should only count failed sign-ins (%s)", async (algorithm) => {
+			const { auth, testUser } = await getTestInstance({
+				plugins: [
+					rateLimiter({
+						storage: "memory",
+						enforce: ["/sign-in/email"],
+						customRules: {
+							"/sign-in/email": {
+								window: 60,
+								max: 2,
+								algorithm,
+								count: "failed",
+							},
+						},
+					}),
+				],
+			});
+
+			const headers = new Headers({ "x-forwarded-for": "10.0.7.1" });
+			const signIn = (password: string) =>
+				auth.api.signInEmail({
+					headers,
+					body: { email: testUser.email, password },
+				});
+
+			for (let i = 0; i < 3; i++) {
+				await signIn(testUser.password);
+			}
+			for (let i = 0; i < 2; i++) {
+				await expect(signIn("wrong-password")).rejects.toMatchObject({
+					statusCode: 401,
+				});
+			}
+			await expect(signIn(testUser.password)).rejects.toMatchObject({
+				statusCode: 429,
+			});
+		});
+
+		it("should refund requests through refundRateLimit", async () => {
+			const { auth } = await getTestInstance({
+				plugins: [
+					rateLimiter({
+						storage: "memory",
+						customRules: {
+							"/api/verify": { window: 60, max: 1 },
+						},
+					}),
+				],
+			});
+
+			const headers = new Headers({ "x-forwarded-for": "10.0.7.2" });
+			const r1 = await auth.api.checkRateLimit({
+				headers,
+				body: { path: "/api/verify" },
+			});
+			expect(r1.success).toBe(true);
+
+			await auth.api.refundRateLimit({
+				headers,
+				body: { path: "/api/verify" },
+			});
+
+			const r2 = await auth.api.checkRateLimit({
+				headers,
+				body: { path: "/api/verify" },
+			});
+			expect(r2.success).toBe(true);
+
+			const r3 = await auth.api.checkRateLimit({
+				headers,
+				body: { path: "/api/verify" },
+			});
+			expect(r3.success).toBe(false);
+		});
+
+		it("should not expose refundRateLimit over HTTP", async () => {
+			const { auth } = await getTestInstance({
+				plugins: [rateLimiter({ storage: "memory" })],
+			});
+
+			const response = await auth.handler(
+				new Request("http://localhost:3000/api/auth/rate-limiter/refund", {
+					method: "POST",
+					headers: { "content-type": "application/json" },
+					body: JSON.stringify({ path: "/api/verify" }),
+				}),
+			);
+			expect(response.status).toBe(404);
+		});
+	});
+
+	describe("penalties", () => {
+		it("should lock out repeat offenders for an increasing duration", async () => {
+			vi.useFakeTimers();
+
+			const { auth } = await getTestInstance({
+				plugins: [
+					rateLimiter({
+						window: 10,
+						max: 1,
+						storage: "memory",
+						penalty: { threshold: 2, duration: 60, multiplier: 2 },
+					}),
+				],
+			});
+
+			const check = () =>
+				auth.api.checkRateLimit({
+					headers: new Headers({ "x-forwarded-for": "10.0.8.1" }),
+					body: { path: "/api/penalty" },
+				});
+
+			expect((await check()).success).toBe(true);
+			expect(await check()).toMatchObject({
+				success: false,
+				code: "RATE_LIMITED",
+			});
+			expect(await check()).toMatchObject({
+				success: false,
+				code: "LOCKED_OUT",
+				retryAfter: 60,
+			});
+
+			// The window has reset, but the lockout is still active
+			vi.advanceTimersByTime(30_000);
+			expect(await check()).toMatchObject({
+				success: false,
+				code: "LOCKED_OUT",
+				retryAfter: 30,
+			});
+
+			vi.advanceTimersByTime(31_000);
+			expect((await check()).success).toBe(true);
+			expect((await check()).code).toBe("RATE_LIMITED");
+			expect(await check()).toMatchObject({
+				code: "LOCKED_OUT",
+				retryAfter: 120,
+			});
+
+			vi.useRealTimers();
+		});
+
+		it("should cap the lockout at maxDuration", async () => {
+			vi.useFakeTimers();
+
+			const { auth } = await getTestInstance({
+				plugins: [
+					rateLimiter({
+						window: 10,
+						max: 1,
+						storage: "memory",
+						penalty: {
+							threshold: 1,
+							duration: 60,
+							multiplier: 10,
+							maxDuration: 100,
+						},
+					}),
+				],
+			});
+
+			const check = () =>
+				auth.api.checkRateLimit({
+					headers: new Headers({ "x-forwarded-for": "10.0.8.2" }),
+					body: { path: "/api/penalty" },
+				});
+
+			await check();
+			expect((await check()).retryAfter).toBe(60);
+
+			vi.advanceTimersByTime(61_000);
+			await check();
+			expect((await check()).retryAfter).toBe(100);
+
+			vi.useRealTimers();
+		});
+
+		it("should allow disabling the penalty per rule", async () => {
+			const { auth } = await getTestInstance({
+				plugins: [
+					rateLimiter({
+						storage: "memory",
+						penalty: { threshold: 1 },
+						customRules: {
+							"/api/lenient": { window: 60, max: 1, penalty: false },
+						},
+					}),
+				],
+			});
+
+			const headers = new Headers({ "x-forwarded-for": "10.0.8.3" });
+			for (let i = 0; i < 3; i++) {
+				await auth.api.checkRateLimit({
+					headers,
+					body: { path: "/api/lenient" },
+				});
+			}
+			const result = await auth.api.checkRateLimit({
+				headers,
+				body: { path: "/api/lenient" },
+			});
+			expect(result.code).toBe("RATE_LIMITED");
+		});
+
+		it("should persist lockouts in the database", async () => {
+			const { auth } = await getTestInstance({
+				plugins: [
+					rateLimiter({
+						window: 60,
+						max: 1,
+						storage: "database",
+						penalty: { threshold: 1, duration: 60 },
+					}),
+				],
+			});
+
+			const check = () =>
+				auth.api.checkRateLimit({
+					headers: new Headers({ "x-forwarded-for": "10.0.8.4" }),
+					body: { path: "/api/penalty" },
+				});
+
+			await check();
+			await check();
+			const result = await check();
+			expect(result).toMatchObject({ success: false, code: "LOCKED_OUT" });
+			expect(result.retryAfter).toBeGreaterThan(55);
+		});
+
+		it("should reject enforced endpoints with LOCKED_OUT", async () => {
+			const { auth, testUser } = await getTestInstance({
+				plugins: [
+					rateLimiter({
+						storage: "memory",
+						enforce: ["/sign-in/email"],
+						penalty: { threshold: 1 },
+						customRules: {
+							"/sign-in/email": { window: 60, max: 1 },
+						},
+					}),
+				],
+			});
+
+			const signIn = () =>
+				auth.api.signInEmail({
+					headers: new Headers({ "x-forwarded-for": "10.0.8.5" }),
+					body: { email: testUser.email, password: testUser.password },
+				});
+
+			await signIn();
+			await expect(signIn()).rejects.toMatchObject({
+				statusCode: 429,
+				body: { code: "LOCKED_OUT" },
+			});
+		});
+	});
+
+	describe("IP lists", () => {
+		const check = (auth: RateLimiterAuth, ip: string) =>
+			auth.api.checkRateLimit({
+				headers: new Headers({ "x-forwarded-for": ip }),
+				body: { path: "/api/lists" },
+			});
+
+		it("should never limit allowlisted addresses and ranges", async () => {
+			const { auth } = await getTestInstance({
+				plugins: [
+					rateLimiter({
+						window: 60,
+						max: 1,
+						storage: "memory",
+						allowlist: ["10.0.9.1", "192.168.0.0/16", "2001:db8::/32"],
+					}),
+				],
+			});
+
+			for (const ip of ["10.0.9.1", "192.168.4.20", "2001:db8:0:1::5"]) {
+				for (let i = 0; i < 3; i++) {
+					expect((await check(auth, ip)).success).toBe(true);
+				}
+			}
+
+			await check(auth, "10.0.9.2");
+			expect((await check(auth, "10.0.9.2")).success).toBe(false);
+		});
+
+		it("should block denylisted addresses and ranges", async () => {
+			const { auth } = await getTestInstance({
+				plugins: [
+					rateLimiter({
+						storage: "memory",
+						denylist: ["203.0.113.0/24", "2001:db8::dead"],
+					}),
+				],
+			});
+
+			for (const ip of [
+				"203.0.113.7",
+				"::ffff:203.0.113.8",
+				"2001:DB8:0:0:0:0:0:DEAD",
+			]) {
+				expect(await check(auth, ip)).toMatchObject({
+					success: false,
+					code: "BLOCKED",
+				});
+			}
+
+			expect((await check(auth, "2001:db8::beef")).success).toBe(true);
+			expect((await check(auth, "203.0.114.1")).success).toBe(true);
+		});
+
+		it("should give the denylist precedence over the allowlist", async () => {
+			const { auth } = await getTestInstance({
+				plugins: [
+					rateLimiter({
+						storage: "memory",
+						allowlist: ["10.0.0.0/8"],
+						denylist: ["10.0.9.0/24"],
+					}),
+				],
+			});
+
+			expect((await check(auth, "10.0.9.3")).code).toBe("BLOCKED");
+			expect((await check(auth, "10.0.10.3")).success).toBe(true);
+		});
+
+		it("should throw on invalid entries", () => {
+			expect(() => rateLimiter({ denylist: ["10.0.0.0/33"] })).toThrow(
+				/Invalid IP address or CIDR block "10.0.0.0\/33"/,
+			);
+			expect(() => rateLimiter({ allowlist: ["2001:db8:::1"] })).toThrow();
+		});
+
+		it("should reject denylisted requests to enforced endpoints with a 403", async () => {
+			const { auth, testUser } = await getTestInstance({
+				plugins: [
+					rateLimiter({
+						storage: "memory",
+						enforce: ["/sign-in/email"],
+						denylist: ["10.0.9.4"],
+					}),
+				],
+			});
+
+			await expect(
+				auth.api.signInEmail({
+					headers: new Headers({ "x-forwarded-for": "10.0.9.4" }),
+					body: { email: testUser.email, password: testUser.password },
+				}),
+			).rejects.toMatchObject({
+				statusCode: 403,
+				body: { code: "BLOCKED" },
+			});
+		});
+	});
+
+	describe("IP subnets", () => {
+		const check = (auth: RateLimiterAuth, ip: string) =>
+			auth.api.checkRateLimit({
+				headers: new Headers({ "x-forwarded-for": ip }),
+				body: { path: "/api/subnets" },
+			});
+
+		it("should group IPv6 addresses by /64 by default", async () => {
+			const { auth } = await getTestInstance({
+				plugins: [rateLimiter({ window: 60, max: 2, storage: "memory" })],
+			});
+
+			expect((await check(auth, "2001:db8:1:2::1")).success).toBe(true);
+			expect((await check(auth, "2001:db8:1:2:ffff::9")).success).toBe(true);
+			expect((await check(auth, "2001:db8:1:2:abcd::1")).success).toBe(false);
+
+			expect((await check(auth, "2001:db8:1:3::1")).success).toBe(true);
+		});
+
+		it("should normalize address formats before keying", async () => {
+			const { auth } = await getTestInstance({
+				plugins: [
+					rateLimiter({
+						window: 60,
+						max: 2,
+						storage: "memory",
+						ipv6Subnet: 128,
+					}),
+				],
+			});
+
+			expect((await check(auth, "2001:db8::a")).success).toBe(true);
+			expect((await check(auth, "2001:0DB8:0:0:0:0:0:000A")).success).toBe(
+				true,
+			);
+			expect((await check(auth, "2001:db8:0::a")).success).toBe(false);
+
+			expect((await check(auth, "2001:db8::b")).success).toBe(true);
+
+			expect((await check(auth, "198.51.100.1")).success).toBe(true);
+			expect((await check(auth, "::ffff:198.51.100.1")).success).toBe(true);
+			expect((await check(auth, "198.51.100.1")).success).toBe(false);
+		});
+
+		it("should optionally group IPv4 addresses", async () => {
+			const { auth } = await getTestInstance({
+				plugins: [
+					rateLimiter({
+						window: 60,
+						max: 2,
+						storage: "memory",
+						ipv4Subnet: 24,
+					}),
+				],
+			});
+
+			expect((await check(auth, "198.51.100.1")).success).toBe(true);
+			expect((await check(auth, "198.51.100.2")).success).toBe(true);
+			expect((await check(auth, "198.51.100.3")).success).toBe(false);
+
+			expect((await check(auth, "198.51.101.1")).success).toBe(true);
+		});
+
+		it("should throw on invalid prefix lengths", () => {
+			expect(() => rateLimiter({ ipv6Subnet: 129 })).toThrow(/ipv6Subnet/);
+			expect(() => rateLimiter({ ipv4Subnet: 24.5 })).toThrow(/ipv4Subnet/);
+		});
+	});
+
+	describe("admin endpoints", () => {
+		async function setup(
+			options: Parameters<typeof rateLimiter>[0] = {},
+			secondaryStorage?: ReturnType<typeof createSecondaryStorage>,
+		) {
+			const instance = await getTestInstance(
+				{
+					secondaryStorage,
+					plugins: [
+						rateLimiter({
+							window: 60,
+							max: 1,
+							storage: "memory",
+							isAdmin: ({ user }) => user.email === "test@test.com",
+							...options,
+						}),
+					],
+				},
+				{ clientOptions: { plugins: [rateLimiterClient()] } },
+			);
+			const { headers } = await instance.signInWithTestUser();
+			return { ...instance, headers };
+		}
+
+		const check = (auth: RateLimiterAuth, ip: string) =>
+			auth.api.checkRateLimit({
+				headers: new Headers({ "x-forwarded-for": ip }),
+				body: { path: "/api/admin" },
+			});
+
+		it.each(["memory", "database", "secondary-storage"] as const)(
+			"should show and reset the state of an identifier (%s)",
+			async (storage) => {
+				const { auth, headers } = await setup(
+					{ storage, penalty: { threshold: 1 } },
+					createSecondaryStorage(),
+				);
+
+				await check(auth, "10.0.10.1");
+				expect((await check(auth, "10.0.10.1")).code).toBe("LOCKED_OUT");
+
+				const status = await auth.api.getRateLimitStatus({
+					headers,
+					query: { identifier: "10.0.10.1", path: "/api/admin" },
+				});
+				expect(status.entries).toEqual([
+					expect.objectContaining({ key: "rl:10.0.10.1|/api/admin", count: 2 }),
+					expect.objectContaining({
+						key: "rl:10.0.10.1|/api/admin:penalty",
+						blockedUntil: expect.any(Number),
+					}),
+				]);
+
+				await auth.api.resetRateLimit({
+					headers,
+					body: { identifier: "10.0.10.1", path: "/api/admin" },
+				});
+
+				const after = await auth.api.getRateLimitStatus({
+					headers,
+					query: { identifier: "10.0.10.1", path: "/api/admin" },
+				});
+				expect(after.entries).toEqual([]);
+				expect((await check(auth, "10.0.10.1")).success).toBe(true);
+			},
+		);
+
+		it("should resolve IP, multi-tier and body field identifiers", async () => {
+			const { auth, headers } = await setup({
+				enforce: ["/sign-in/email"],
+				customRules: {
+					"/sign-in/email": [
+						{ window: 60, max: 10 },
+						{ window: 900, max: 5, bodyField: "email" },
+					],
+				},
+			});
+
+			await auth.api
+				.signInEmail({
+					headers: new Headers({ "x-forwarded-for": "2001:db8:a::1" }),
+					body: { email: "Victim@Test.COM", password: "wrong-password" },
+				})
+				.catch(() => {});
+
+			const byIp = await auth.api.getRateLimitStatus({
+				headers,
+				query: { identifier: "2001:db8:a::2", path: "/sign-in/email" },
+			});
+			expect(byIp.entries).toEqual([
+				expect.objectContaining({
+					key: "rl:2001:db8:a::/64|/sign-in/email#0",
+					count: 1,
+				}),
+			]);
+
+			const byEmail = await auth.api.getRateLimitStatus({
+				headers,
+				query: {
+					identifier: "body:email:victim@test.com",
+					path: "/sign-in/email",
+				},
+			});
+			expect(byEmail.entries).toHaveLength(1);
+			expect(byEmail.entries[0]!.key).toMatch(/^rl:body:email:[\da-f]{64}\|/);
+		});
+
+		it("should list entries by prefix", async () => {
+			const { auth, headers } = await setup();
+
+			await check(auth, "10.0.10.2");
+			await check(auth, "10.0.10.3");
+			await check(auth, "10.0.11.1");
+
+			const { entries } = await auth.api.listRateLimits({
+				headers,
+				query: { prefix: "10.0.10." },
+			});
+			expect(entries.map((entry) => entry.key)).toEqual([
+				"rl:10.0.10.2|/api/admin",
+				"rl:10.0.10.3|/api/admin",
+			]);
+
+			const page = await auth.api.listRateLimits({
+				headers,
+				query: { limit: 1, offset: 1 },
+			});
+			expect(page.entries).toHaveLength(1);
+		});
+
+		it("should not support listing secondary storage", async () => {
+			const { auth, headers } = await setup(
+				{ storage: "secondary-storage" },
+				createSecondaryStorage(),
+			);
+
+			await expect(
+				auth.api.listRateLimits({ headers, query: {} }),
+			).rejects.toMatchObject({
+				statusCode: 400,
+				body: { code: "LIST_NOT_SUPPORTED" },
+			});
+		});
+
+		it("should require an admin session", async () => {
+			const { auth, headers } = await setup({ isAdmin: () => false });
+
+			await expect(
+				auth.api.resetRateLimit({
+					body: { identifier: "10.0.10.4", path: "/api/admin" },
+				}),
+			).rejects.toMatchObject({ statusCode: 401 });
+
+			await expect(
+				auth.api.resetRateLimit({
+					headers,
+					body: { identifier: "10.0.10.4", path: "/api/admin" },
+				}),
+			).rejects.toMatchObject({
+				statusCode: 403,
+				body: { code: "NOT_ALLOWED_TO_MANAGE_RATE_LIMITS" },
+			});
+		});
+
+		it("should expose the admin endpoints as client actions", async () => {
+			const { auth, client, headers } = await setup();
+
+			await check(auth, "10.0.10.5");
+
+			const status = await client.rateLimiter.status({
+				query: { identifier: "10.0.10.5", path: "/api/admin" },
+				fetchOptions: { headers },
+			});
+			expect(status.data?.entries).toHaveLength(1);
+
+			const reset = await client.rateLimiter.reset({
+				identifier: "10.0.10.5",
+				path: "/api/admin",
+				fetchOptions: { headers },
+			});
+			expect(reset.data).toEqual({ success: true });
+
+			const list = await client.rateLimiter.list({
+				query: {},
+				fetchOptions: { headers },
+			});
+			expect(list.data?.entries).toEqual([]);
+		});
+	});
+
+	describe("peek", () => {
+		it.each([
+			"fixed-window",
+			"sliding-window",
+			"token-bucket",
+			"gcra",
+		] as const)(
+			"should report the remaining budget without consuming (%s)",
+			async (algorithm) => {
+				const { auth } = await getTestInstance({
+					plugins: [
+						rateLimiter({ window: 60, max: 3, storage: "memory", algorithm }),
+					],
+				});
+				const headers = new Headers({ "x-forwarded-for": "10.0.11.1" });
+
+				await auth.api.checkRateLimit({
+					headers,
+					body: { path: "/api/peek" },
+				});
+
+				for (let i = 0; i < 3; i++) {
+					const result = await auth.api.checkRateLimit({
+						headers,
+						body: { path: "/api/peek", peek: true },
+					});
+					expect(result).toMatchObject({
+						success: true,
+						limit: 3,
+						remaining: 2,
+					});
+				}
+
+				const result = await auth.api.checkRateLimit({
+					headers,
+					body: { path: "/api/peek" },
+				});
+				expect(result.remaining).toBe(1);
+			},
+		);
+
+		it("should report whether a request of the given cost would pass", async () => {
+			const { auth } = await getTestInstance({
+				plugins: [rateLimiter({ window: 60, max: 3, storage: "memory" })],
+			});
+			const headers = new Headers({ "x-forwarded-for": "10.0.11.2" });
+
+			await auth.api.checkRateLimit({
+				headers,
+				body: { path: "/api/peek-cost" },
+			});
+
+			expect(
+				await auth.api.checkRateLimit({
+					headers,
+					body: { path: "/api/peek-cost", peek: true, cost: 2 },
+				}),
+			).toMatchObject({ success: true, remaining: 2 });
+
+			const result = await auth.api.checkRateLimit({
+				headers,
+				body: { path: "/api/peek-cost", peek: true, cost: 3 },
+			});
+			expect(result).toMatchObject({
+				success: false,
+				code: "RATE_LIMITED",
+				remaining: 2,
+			});
+			expect(result.retryAfter).toBeGreaterThan(0);
+		});
+
+		it("should report the cost a request would consume", async () => {
+			const { auth } = await getTestInstance({
+				plugins: [
+					rateLimiter({
+						storage: "memory",
+						customRules: {
+							"/api/batch": [
+								{
+									window: 60,
+									max: 100,
+									cost: ({ headers }) => Number(headers?.get("x-batch-size")),
+								},
+								{ window: 3600, max: 1000 },
+							],
+						},
+					}),
+				],
+			});
+
+			const result = await auth.api.checkRateLimit({
+				headers: new Headers({
+					"x-forwarded-for": "10.0.11.5",
+					"x-batch-size": "40",
+				}),
+				body: { path: "/api/batch", peek: true },
+			});
+			expect(result).toMatchObject({ success: true, remaining: 100, cost: 40 });
+			expect(result.tiers?.map((tier) => tier.cost)).toEqual([40, 1]);
+		});
+
+		it("should not report a retryAfter when the cost exceeds the limit", async () => {
+			const { auth } = await getTestInstance({
+				plugins: [
+					rateLimiter({
+						window: 60,
+						max: 3,
+						storage: "memory",
+						algorithm: "token-bucket",
+					}),
+				],
+			});
+
+			const result = await auth.api.checkRateLimit({
+				headers: new Headers({ "x-forwarded-for": "10.0.11.3" }),
+				body: { path: "/api/peek-cost", peek: true, cost: 4 },
+			});
+			expect(result).toMatchObject({ success: false, remaining: 3 });
+			expect(result.retryAfter).toBeUndefined();
+		});
+
+		it("should not record penalty violations", async () => {
+			const { auth } = await getTestInstance({
+				plugins: [
+					rateLimiter({
+						window: 60,
+						max: 1,
+						storage: "memory",
+						penalty: { threshold: 1 },
+					}),
+				],
+			});
+			const headers = new Headers({ "x-forwarded-for": "10.0.11.4" });
+
+			await auth.api.checkRateLimit({
+				headers,
+				body: { path: "/api/peek-penalty" },
+			});
+			for (let i = 0; i < 3; i++) {
+				const result = await auth.api.checkRateLimit({
+					headers,
+					body: { path: "/api/peek-penalty", peek: true },
+				});
+				expect(result.code).toBe("RATE_LIMITED");
+			}
+		});
+	});
+
+	describe("weighted requests", () => {
+		it.each([
+			"fixed-window",
+			"sliding-window",
+			"token-bucket",
+			"gcra",
+		] as const)(
+			"should deduct the cost of each request (%s)",
+			async (algorithm) => {
+				const { auth } = await getTestInstance({
+					plugins: [
+						rateLimiter({ window: 60, max: 10, storage: "memory", algorithm }),
+					],
+				});
+				const check = (cost: number) =>
+					auth.api.checkRateLimit({
+						headers: new Headers({ "x-forwarded-for": "10.0.12.1" }),
+						body: { path: "/api/weighted", cost },
+					});
+
+				expect(await check(4)).toMatchObject({ success: true, remaining: 6 });
+				expect(await check(4)).toMatchObject({ success: true, remaining: 2 });
+				expect(await check(4)).toMatchObject({ success: false, remaining: 2 });
+				expect(await check(2)).toMatchObject({ success: true, remaining: 0 });
+				expect((await check(1)).success).toBe(false);
+			},
+		);
+
+		it("should use the cost of the rule by default", async () => {
+			const { auth } = await getTestInstance({
+				plugins: [
+					rateLimiter({
+						storage: "memory",
+						customRules: {
+							"/api/ai/generate": { window: 60, max: 100, cost: 25 },
+							"/api/ai/batch": {
+								window: 60,
+								max: 100,
+								cost: ({ headers }) => Number(headers?.get("x-batch-size")),
+							},
+						},
+					}),
+				],
+			});
+
+			const generate = await auth.api.checkRateLimit({
+				headers: new Headers({ "x-forwarded-for": "10.0.12.2" }),
+				body: { path: "/api/ai/generate" },
+			});
+			expect(generate.remaining).toBe(75);
+
+			const batch = await auth.api.checkRateLimit({
+				headers: new Headers({
+					"x-forwarded-for": "10.0.12.2",
+					"x-batch-size": "40",
+				}),
+				body: { path: "/api/ai/batch" },
+			});
+			expect(batch.remaining).toBe(60);
+
+			// An explicit cost takes precedence over the rule
+			const explicit = await auth.api.checkRateLimit({
+				headers: new Headers({ "x-forwarded-for": "10.0.12.2" }),
+				body: { path: "/api/ai/generate", cost: 5 },
+			});
+			expect(explicit.remaining).toBe(70);
+		});
+
+		it.each(["-100", "0", "abc"])(
+			"should throw when the cost of the rule resolves to %s",
+			async (batchSize) => {
+				const { auth } = await getTestInstance({
+					plugins: [
+						rateLimiter({
+							storage: "memory",
+							customRules: {
+								"/api/ai/batch": {
+									window: 60,
+									max: 3,
+									cost: ({ headers }) => Number(headers?.get("x-batch-size")),
+								},
+							},
+						}),
+					],
+				});
+				const check = (size: string) =>
+					auth.api.checkRateLimit({
+						headers: new Headers({
+							"x-forwarded-for": "10.0.12.5",
+							"x-batch-size": size,
+						}),
+						body: { path: "/api/ai/batch" },
+					});
+
+				expect((await check("3")).success).toBe(true);
+				await expect(check(batchSize)).rejects.toThrow(
+					'"cost" must resolve to a positive integer',
+				);
+				expect(await check("1")).toMatchObject({
+					success: false,
+					remaining: 0,
+				});
+			},
+		);
+
+		it("should reject a cost above the limit without consuming", async () => {
+			const { auth } = await getTestInstance({
+				plugins: [rateLimiter({ window: 60, max: 5, storage: "memory" })],
+			});
+			const check = (cost: number) =>
+				auth.api.checkRateLimit({
+					headers: new Headers({ "x-forwarded-for": "10.0.12.3" }),
+					body: { path: "/api/weighted", cost },
+				});
+
+			const result = await check(6);
+			expect(result).toMatchObject({ success: false, remaining: 5 });
+			expect(result.retryAfter).toBeUndefined();
+			expect(await check(5)).toMatchObject({ success: true, remaining: 0 });
+		});
+
+		it("should refund the cost of the request", async () => {
+			const { auth } = await getTestInstance({
+				plugins: [
+					rateLimiter({
+						storage: "memory",
+						algorithm: "token-bucket",
+						customRules: {
+							"/api/weighted": { window: 60, max: 10, cost: 3 },
+						},
+					}),
+				],
+			});
+			const headers = new Headers({ "x-forwarded-for": "10.0.12.4" });
+
+			await auth.api.checkRateLimit({
+				headers,
+				body: { path: "/api/weighted" },
+			});
+			await auth.api.refundRateLimit({
+				headers,
+				body: { path: "/api/weighted" },
+			});
+
+			const result = await auth.api.checkRateLimit({
+				headers,
+				body: { path: "/api/weighted", peek: true },
+			});
+			expect(result.remaining).toBe(10);
+		});
+	});
+
+	describe("shadow mode", () => {
+		it("should allow requests over the limit and flag them", async () => {
+			const onShadowLimited = vi.fn();
+			const { auth } = await getTestInstance({
+				plugins: [
+					rateLimiter({
+						window: 60,
+						max: 1,
+						storage: "memory",
+						mode: "shadow",
+						onShadowLimited,
+					}),
+				],
+			});
+			const check = () =>
+				auth.api.checkRateLimit({
+					headers: new Headers({ "x-forwarded-for": "10.0.13.1" }),
+					body: { path: "/api/shadow" },
+				});
+
+			const allowed = await check();
+			expect(allowed.success).toBe(true);
+			expect(allowed.wouldHaveBeenLimited).toBeUndefined();
+
+			const result = await check();
+			expect(result).toMatchObject({
+				success: true,
+				wouldHaveBeenLimited: true,
+				code: "RATE_LIMITED",
+				limit: 1,
+				remaining: 0,
+			});
+			expect(result.message).toBeUndefined();
+			expect(onShadowLimited).toHaveBeenCalledTimes(1);
+			expect(onShadowLimited).toHaveBeenCalledWith({
+				identifier: "10.0.13.1",
+				path: "/api/shadow",
+				pattern: null,
+				window: 60,
+				limit: 1,
+				remaining: 0,
+				retryAfter: expect.any(Number),
+				session: null,
+			});
+		});
+
+		it("should allow a rule to override the global mode", async () => {
+			const onShadowLimited = vi.fn();
+			const { auth } = await getTestInstance({
+				plugins: [
+					rateLimiter({
+						storage: "memory",
+						onShadowLimited,
+						customRules: {
+							"/api/search": [
+								{ window: 60, max: 3 },
+								{ window: 60, max: 1, mode: "shadow" },
+							],
+						},
+					}),
+				],
+			});
+			const check = () =>
+				auth.api.checkRateLimit({
+					headers: new Headers({ "x-forwarded-for": "10.0.13.2" }),
+					body: { path: "/api/search" },
+				});
+
+			await check();
+			expect(await check()).toMatchObject({
+				success: true,
+				wouldHaveBeenLimited: true,
+				limit: 1,
+			});
+			await check();
+
+			// The enforced tier still rejects, and reports its own numbers
+			const result = await check();
+			expect(result).toMatchObject({ success: false, limit: 3 });
+			expect(result.wouldHaveBeenLimited).toBeUndefined();
+			expect(onShadowLimited).toHaveBeenCalledTimes(3);
+			expect(onShadowLimited).toHaveBeenLastCalledWith(
+				expect.objectContaining({ pattern: "/api/search", limit: 1 }),
+			);
+		});
+
+		it("should not reject Better Auth endpoints", async () => {
+			const { auth, testUser } = await getTestInstance({
+				plugins: [
+					rateLimiter({
+						storage: "memory",
+						enforce: true,
+						customRules: {
+							"/sign-in/email": { window: 60, max: 1, mode: "shadow" },
+						},
+					}),
+				],
+			});
+
+			const headers = new Headers({ "x-forwarded-for": "10.0.13.3" });
+			for (let i = 0; i < 3; i++) {
+				const result = await auth.api.signInEmail({
+					headers,
+					body: { email: testUser.email, password: testUser.password },
+				});
+				expect(result.token).toBeDefined();
+			}
+		});
+
+		it("should not fail the request when onShadowLimited throws", async () => {
+			const { auth } = await getTestInstance({
+				plugins: [
+					rateLimiter({
+						window: 60,
+						max: 1,
+						storage: "memory",
+						mode: "shadow",
+						onShadowLimited: () => {
+							throw new Error("boom");
+						},
+					}),
+				],
+			});
+			const check = () =>
+				auth.api.checkRateLimit({
+					headers: new Headers({ "x-forwarded-for": "10.0.13.4" }),
+					body: { path: "/api/shadow" },
+				});
+
+			await check();
+			expect((await check()).success).toBe(true);
+		});
+	});
+
+	describe("lifecycle hooks", () => {
+		it("should call onAllowed and onLimited with the request details", async () => {
+			const onAllowed = vi.fn();
+			const onLimited = vi.fn();
+			const { auth, signInWithTestUser } = await getTestInstance({
+				plugins: [
+					rateLimiter({
+						storage: "memory",
+						detection: "user",
+						customRules: {
+							"/api/ai/*": { window: 60, max: 1 },
+						},
+						onAllowed,
+						onLimited,
+					}),
+				],
+			});
+			const { headers } = await signInWithTestUser();
+			const check = (peek?: boolean) =>
+				auth.api.checkRateLimit({
+					headers,
+					body: { path: "/api/ai/generate", peek },
+				});
+
+			await check();
+			expect(onAllowed).toHaveBeenCalledTimes(1);
+			const [allowed] = onAllowed.mock.calls[0]!;
+			expect(allowed).toMatchObject({
+				path: "/api/ai/generate",
+				pattern: "/api/ai/*",
+				window: 60,
+				limit: 1,
+				remaining: 0,
+			});
+			expect(allowed.identifier).toBe(`user:${allowed.session.user.id}`);
+
+			await check();
+			expect(onLimited).toHaveBeenCalledTimes(1);
+			expect(onLimited.mock.calls[0]![0]).toMatchObject({
+				identifier: allowed.identifier,
+				path: "/api/ai/generate",
+				pattern: "/api/ai/*",
+				code: "RATE_LIMITED",
+				remaining: 0,
+				retryAfter: expect.any(Number),
+				session: { user: { email: "test@test.com" } },
+			});
+
+			// Peeking is not a request
+			await check(true);
+			expect(onAllowed).toHaveBeenCalledTimes(1);
+			expect(onLimited).toHaveBeenCalledTimes(1);
+		});
+
+		it("should call onLimited for Better Auth endpoints", async () => {
+			const onLimited = vi.fn();
+			const { auth, testUser } = await getTestInstance({
+				plugins: [
+					rateLimiter({
+						storage: "memory",
+						enforce: true,
+						customRules: {
+							"/sign-in/email": { window: 60, max: 1 },
+						},
+						onLimited,
+					}),
+				],
+			});
+
+			const signIn = () =>
+				auth.api.signInEmail({
+					headers: new Headers({ "x-forwarded-for": "10.0.14.1" }),
+					body: { email: testUser.email, password: testUser.password },
+				});
+			await signIn();
+			await expect(signIn()).rejects.toMatchObject({ statusCode: 429 });
+			expect(onLimited).toHaveBeenCalledWith(
+				expect.objectContaining({
+					identifier: "10.0.14.1",
+					path: "/sign-in/email",
+					pattern: "/sign-in/email",
+					session: null,
+				}),
+			);
+		});
+
+		it("should call onStorageError", async () => {
+			const onStorageError = vi.fn();
+			const failure = new Error("connection lost");
+			const secondaryStorage = createSecondaryStorage();
+			const { auth } = await getTestInstance({
+				secondaryStorage: {
+					...secondaryStorage,
+					get: async (key: string) => {
+						if (key.startsWith("rl:")) {
+							throw failure;
+						}
+						return secondaryStorage.get(key);
+					},
+				},
+				plugins: [
+					rateLimiter({ storage: "secondary-storage", onStorageError }),
+				],
+			});
+
+			const result = await auth.api.checkRateLimit({
+				headers: new Headers({ "x-forwarded-for": "10.0.14.2" }),
+				body: { path: "/api/storage" },
+			});
+			expect(result.success).toBe(true);
+			expect(onStorageError).toHaveBeenCalledWith({
+				error: failure,
+				identifier: "10.0.14.2",
+				path: "/api/storage",
+				pattern: null,
+				session: null,
+			});
+		});
+	});
+
+	describe("metrics", () => {
+		it("should count checks per rule", async () => {
+			const { auth } = await getTestInstance({
+				plugins: [
+					rateLimiter({
+						window: 60,
+						max: 5,
+						storage: "memory",
+						customRules: {
+							"/api/ai/*": { window: 60, max: 1 },
+						},
+					}),
+				],
+			});
+			const check = (path: string, peek?: boolean) =>
+				auth.api.checkRateLimit({
+					headers: new Headers({ "x-forwarded-for": "10.0.15.1" }),
+					body: { path, peek },
+				});
+
+			await check("/api/ai/chat");
+			await check("/api/ai/chat");
+			await check("/api/ai/image", true);
+			await check("/api/other");
+
+			const { rules } = await auth.api.getRateLimitMetrics();
+			expect(rules).toHaveLength(2);
+			const ai = rules.find((rule) => rule.rule === "/api/ai/*")!;
+			expect(ai).toMatchObject({
+				storage: "memory",
+				checks: 2,
+				allowed: 1,
+				limited: 1,
+				storageErrors: 0,
+			});
+			expect(ai.latency.count).toBe(2);
+			expect(ai.latency.buckets.at(-1)!.count).toBe(2);
+			expect(rules.find((rule) => rule.rule === "default")).toMatchObject({
+				checks: 1,
+				allowed: 1,
+			});
+		});
+
+		it("should count storage errors", async () => {
+			const secondaryStorage = createSecondaryStorage();
+			const { auth } = await getTestInstance({
+				secondaryStorage: {
+					...secondaryStorage,
+					get: async (key: string) => {
+						if (key.startsWith("rl:")) {
+							throw new Error("connection lost");
+						}
+						return secondaryStorage.get(key);
+					},
+				},
+				plugins: [rateLimiter({ storage: "secondary-storage" })],
+			});
+
+			await auth.api.checkRateLimit({
+				headers: new Headers({ "x-forwarded-for": "10.0.15.2" }),
+				body: { path: "/api/storage" },
+			});
+
+			const { rules } = await auth.api.getRateLimitMetrics();
+			expect(rules[0]).toMatchObject({
+				rule: "default",
+				storage: "secondary-storage",
+				checks: 1,
+				allowed: 1,
+				limited: 0,
+				storageErrors: 1,
+			});
+		});
+
+		it("should expose Prometheus metrics over HTTP when enabled", async () => {
+			const { auth } = await getTestInstance({
+				plugins: [
+					rateLimiter({
+						storage: "memory",
+						customRules: {
+							'/api/"quoted"': { window: 60, max: 1 },
+						},
+						metrics: { endpoint: true, buckets: [0.5, 0.1] },
+					}),
+				],
+			});
+			await auth.api.checkRateLimit({
+				headers: new Headers({ "x-forwarded-for": "10.0.15.3" }),
+				body: { path: '/api/"quoted"' },
+			});
+
+			const res = await auth.handler(
+				new Request("http://localhost:3000/api/auth/rate-limiter/metrics"),
+			);
+			expect(res.status).toBe(200);
+			expect(res.headers.get("content-type")).toContain("text/plain");
+			const text = await res.text();
+			const labels = 'rule="/api/\\"quoted\\"",storage="memory"';
+			expect(text).toContain(
+				"# TYPE better_auth_rate_limit_checks_total counter",
+			);
+			expect(text).toContain(
+				`better_auth_rate_limit_checks_total{${labels}} 1`,
+			);
+			expect(text).toContain(
+				`better_auth_rate_limit_allowed_total{${labels}} 1`,
+			);
+			expect(text).toContain(
+				`better_auth_rate_limit_limited_total{${labels}} 0`,
+			);
+			expect(text).toContain(
+				`better_auth_rate_limit_check_duration_seconds_bucket{${labels},le="0.1"} 1`,
+			);
+			expect(text).toContain(
+				`better_auth_rate_limit_check_duration_seconds_bucket{${labels},le="+Inf"} 1`,
+			);
+			expect(text).toContain(
+				`better_auth_rate_limit_check_duration_seconds_count{${labels}} 1`,
+			);
+			expect(text).toContain("better_auth_rate_limit_memory_keys 1");
+			expect(text).toContain("better_auth_rate_limit_memory_evictions_total 0");
+		});
+
+		it("should not expose metrics over HTTP by default", async () => {
+			const { auth } = await getTestInstance({
+				plugins: [rateLimiter({ storage: "memory" })],
+			});
+
+			for (const path of ["metrics", "get-metrics"]) {
+				const res = await auth.handler(
+					new Request(`http://localhost:3000/api/auth/rate-limiter/${path}`),
+				);
+				expect(res.status).toBe(404);
+			}
+		});
+	});
+
+	describe("storage failures", () => {
+		function createFailingSecondaryStorage(
+			fail: (key: string) => Promise<unknown> | null,
+		) {
+			const secondaryStorage = createSecondaryStorage();
+			return {
+				...secondaryStorage,
+				get: async (key: string) => {
+					if (key.startsWith("rl:")) {
+						await fail(key);
+					}
+					return secondaryStorage.get(key);
+				},
+			};
+		}
+		const connectionLost = () => Promise.reject(new Error("connection lost"));
+
+		it("should allow requests when the storage fails by default", async () => {
+			const { auth } = await getTestInstance({
+				secondaryStorage: createFailingSecondaryStorage(connectionLost),
+				plugins: [
+					rateLimiter({ window: 60, max: 5, storage: "secondary-storage" }),
+				],
+			});
+
+			const result = await auth.api.checkRateLimit({
+				headers: new Headers({ "x-forwarded-for": "10.0.16.1" }),
+				body: { path: "/api/storage" },
+			});
+			expect(result).toMatchObject({ success: true, limit: 5, remaining: 5 });
+		});
+
+		it("should reject requests when the storage fails with onStorageFailure: 'deny'", async () => {
+			const { auth, testUser } = await getTestInstance({
+				secondaryStorage: createFailingSecondaryStorage(connectionLost),
+				plugins: [
+					rateLimiter({
+						storage: "secondary-storage",
+						onStorageFailure: "deny",
+						enforce: ["/sign-in/email"],
+					}),
+				],
+			});
+			const headers = new Headers({ "x-forwarded-for": "10.0.16.2" });
+
+			const result = await auth.api.checkRateLimit({
+				headers,
+				body: { path: "/api/storage" },
+			});
+			expect(result).toMatchObject({
+				success: false,
+				code: "STORAGE_UNAVAILABLE",
+			});
+
+			await expect(
+				auth.api.signInEmail({
+					headers,
+					body: { email: testUser.email, password: testUser.password },
+				}),
+			).rejects.toMatchObject({
+				statusCode: 503,
+				body: { code: "STORAGE_UNAVAILABLE" },
+			});
+		});
+
+		it("should time out slow storage calls", async () => {
+			const onStorageError = vi.fn();
+			const { auth } = await getTestInstance({
+				secondaryStorage: createFailingSecondaryStorage(
+					() => new Promise((resolve) => setTimeout(resolve, 200)),
+				),
+				plugins: [
+					rateLimiter({
+						storage: "secondary-storage",
+						onStorageFailure: "deny",
+						storageTimeout: 20,
+						onStorageError,
+					}),
+				],
+			});
+
+			const result = await auth.api.checkRateLimit({
+				headers: new Headers({ "x-forwarded-for": "10.0.16.3" }),
+				body: { path: "/api/slow" },
+			});
+			expect(result.code).toBe("STORAGE_UNAVAILABLE");
+			expect(onStorageError.mock.calls[0]![0].error.message).toContain(
+				"timed out after 20ms",
+			);
+		});
+
+		it("should fall back to memory while the circuit is open", async () => {
+			vi.useFakeTimers();
+
+			let failing = true;
+			const { auth } = await getTestInstance({
+				secondaryStorage: createFailingSecondaryStorage(() =>
+					failing ? connectionLost() : null,
+				),
+				plugins: [
+					rateLimiter({
+						window: 60,
+						max: 1,
+						storage: "secondary-storage",
+						onStorageFailure: "deny",
+						circuitBreaker: { threshold: 2, cooldown: 30 },
+					}),
+				],
+			});
+			const check = () =>
+				auth.api.checkRateLimit({
+					headers: new Headers({ "x-forwarded-for": "10.0.16.4" }),
+					body: { path: "/api/circuit" },
+				});
+
+			expect((await check()).code).toBe("STORAGE_UNAVAILABLE");
+			expect((await check()).code).toBe("STORAGE_UNAVAILABLE");
+
+			// The circuit is open, requests are limited in memory
+			expect((await check()).success).toBe(true);
+			expect((await check()).code).toBe("RATE_LIMITED");
+
+			// After the cooldown, the recovered storage is used again
+			failing = false;
+			vi.advanceTimersByTime(31_000);
+			expect((await check()).success).toBe(true);
+			expect((await check()).code).toBe("RATE_LIMITED");
+
+			vi.useRealTimers();
+		});
+
+		it("should reopen the circuit when the storage still fails after the cooldown", async () => {
+			vi.useFakeTimers();
+
+			const { auth } = await getTestInstance({
+				secondaryStorage: createFailingSecondaryStorage(connectionLost),
+				plugins: [
+					rateLimiter({
+						storage: "secondary-storage",
+						onStorageFailure: "deny",
+						circuitBreaker: { threshold: 3, cooldown: 30 },
+					}),
+				],
+			});
+			const check = () =>
+				auth.api.checkRateLimit({
+					headers: new Headers({ "x-forwarded-for": "10.0.16.5" }),
+					body: { path: "/api/circuit" },
+				});
+
+			for (let i = 0; i < 3; i++) {
+				await check();
+			}
+			expect((await check()).success).toBe(true);
+
+			vi.advanceTimersByTime(31_000);
+			expect((await check()).code).toBe("STORAGE_UNAVAILABLE");
+			expect((await check()).success).toBe(true);
+
+			vi.useRealTimers();
+		});
+	});
+
+	describe("memory storage", () => {
+		it("should keep entries for the window of the matched rule", async () => {
+			vi.useFakeTimers();
+
+			const { auth } = await getTestInstance({
+				plugins: [
+					rateLimiter({
+						window: 60,
+						max: 100,
+						algorithm: "sliding-window",
+						customRules: {
+							"/api/export": { window: 3600, max: 1 },
+						},
+					}),
+				],
+			});
+			const check = () =>
+				auth.api.checkRateLimit({
+					headers: new Headers({ "x-forwarded-for": "10.0.17.1" }),
+					body: { path: "/api/export" },
+				});
+
+			expect((await check()).success).toBe(true);
+			await vi.advanceTimersByTimeAsync(120_000);
+			expect((await check()).success).toBe(false);
+
+			vi.useRealTimers();
+		});
+
+		it("should pass the TTL of the matched rule to secondary storage", async () => {
+			const secondaryStorage = createSecondaryStorage();
+			const set = vi.spyOn(secondaryStorage, "set");
+			const { auth } = await getTestInstance({
+				secondaryStorage,
+				plugins: [
+					rateLimiter({
+						storage: "secondary-storage",
+						window: 60,
+						algorithm: "token-bucket",
+						customRules: {
+							"/api/export": { window: 3600, max: 2 },
+						},
+					}),
+				],
+			});
+
+			await auth.api.checkRateLimit({
+				headers: new Headers({ "x-forwarded-for": "10.0.17.2" }),
+				body: { path: "/api/export" },
+			});
+
+			const ttl = set.mock.calls.find(([key]) => key.startsWith("rl:"))?.[2];
+			expect(ttl).toBeGreaterThan(60);
+		});
+
+		it("should evict keys beyond maxKeys and report it in the metrics", async () => {
+			const { auth } = await getTestInstance({
+				plugins: [
+					rateLimiter({
+						window: 60,
+						max: 1,
+						memory: { maxKeys: 2 },
+					}),
+				],
+			});
+			const check = (ip: string) =>
+				auth.api.checkRateLimit({
+					headers: new Headers({ "x-forwarded-for": ip }),
+					body: { path: "/api/spray" },
+				});
+
+			await check("10.0.17.3");
+			await check("10.0.17.4");
+			await check("10.0.17.5");
+
+			// The first key was evicted, so its limit starts over.
+			expect((await check("10.0.17.3")).success).toBe(true);
+			const { memory } = await auth.api.getRateLimitMetrics();
+			expect(memory).toEqual({ keys: 2, maxKeys: 2, evictions: 2 });
+		});
+	});
+
+	describe("database cleanup", () => {
+		const countRows = async (auth: { $context: Promise<AuthContext> }) => {
+			const ctx = await auth.$context;
+			return ctx.adapter.count({ model: "rateLimit" });
+		};
+
+		it("should delete expired rows", async () => {
+			vi.useFakeTimers();
+
+			const { auth } = await getTestInstance({
+				plugins: [
+					rateLimiter({
+						storage: "database",
+						algorithm: "sliding-window",
+						customRules: {
+							"/api/short": { window: 1, max: 10 },
+							"/api/long": { window: 3600, max: 10, algorithm: "fixed-window" },
+						},
+					}),
+				],
+			});
+			const check = (path: string) =>
+				auth.api.checkRateLimit({
+					headers: new Headers({ "x-forwarded-for": "10.0.18.1" }),
+					body: { path },
+				});
+
+			await check("/api/short");
+			await check("/api/long");
+			expect(await countRows(auth)).toBe(2);
+
+			// The sliding window keeps the previous window for one more window.
+			vi.advanceTimersByTime(2500);
+			expect(await auth.api.cleanupRateLimits()).toEqual({ deleted: 1 });
+			expect(await countRows(auth)).toBe(1);
+			expect((await check("/api/long")).remaining).toBe(8);
+
+			vi.useRealTimers();
+		});
+
+		it("should delete rows written before expiresAt existed by their age", async () => {
+			const { auth } = await getTestInstance({
+				plugins: [
+					rateLimiter({
+						storage: "database",
+						window: 60,
+						customRules: { "/api/slow": { window: 600, max: 1 } },
+					}),
+				],
+			});
+			const ctx = await auth.$context;
+			const now = Date.now();
+			for (const [key, age] of [
+				["rl:legacy-old", 700_000],
+				["rl:legacy-recent", 300_000],
+			] as const) {
+				await ctx.adapter.create({
+					model: "rateLimit",
+					data: { key, count: 1, lastRequest: now - age },
+				});
+			}
+			// e.g. a lockout outlasting its window
+			await ctx.adapter.create({
+				model: "rateLimit",
+				data: {
+					key: "rl:current",
+					count: 1,
+					lastRequest: now - 700_000,
+					expiresAt: now + 60_000,
+				},
+			});
+
+			expect(await auth.api.cleanupRateLimits()).toEqual({ deleted: 1 });
+			const rows = await ctx.adapter.findMany<{ key: string }>({
+				model: "rateLimit",
+				sortBy: { field: "key", direction: "asc" },
+			});
+			expect(rows.map((row) => row.key)).toEqual([
+				"rl:current",
+				"rl:legacy-recent",
+			]);
+		});
+
+		it("should delete in batches", async () => {
+			const { auth } = await getTestInstance({
+				plugins: [
+					rateLimiter({
+						storage: "database",
+						database: { cleanupBatchSize: 2 },
+					}),
+				],
+			});
+			const ctx = await auth.$context;
+			const deleteMany = vi.spyOn(ctx.adapter, "deleteMany");
+			for (let i = 0; i < 5; i++) {
+				await ctx.adapter.create({
+					model: "rateLimit",
+					data: {
+						key: `rl:expired-${i}`,
+						count: 1,
+						lastRequest: Date.now() - 120_000,
+						expiresAt: Date.now() - 60_000,
+					},
+				});
+			}
+
+			expect(await auth.api.cleanupRateLimits()).toEqual({ deleted: 5 });
+			expect(deleteMany).toHaveBeenCalledTimes(3);
+			expect(await countRows(auth)).toBe(0);
+		});
+
+		it("should clean up on an interval", async () => {
+			vi.useFakeTimers();
+
+			const { auth } = await getTestInstance({
+				plugins: [
+					rateLimiter({
+						storage: "database",
+						window: 1,
+						database: { cleanupInterval: 5000 },
+					}),
+				],
+			});
+			await auth.api.checkRateLimit({
+				headers: new Headers({ "x-forwarded-for": "10.0.18.2" }),
+				body: { path: "/api/interval" },
+			});
+			expect(await countRows(auth)).toBe(1);
+
+			await vi.advanceTimersByTimeAsync(5000);
+			expect(await countRows(auth)).toBe(0);
+
+			vi.useRealTimers();
+		});
+
+		it("should not support cleanup for other storages", async () => {
+			const { auth } = await getTestInstance({
+				plugins: [rateLimiter({ storage: "memory" })],
+			});
+
+			await expect(auth.api.cleanupRateLimits()).rejects.toMatchObject({
+				statusCode: 400,
+				body: { code: "CLEANUP_NOT_SUPPORTED" },
+			});
+		});
+	});
+
+	describe("path normalization", () => {
+		const createCheck = async (
+			paths?: RateLimiterOptions["paths"],
+			ip = "10.0.21.1",
+		) => {
+			const { auth } = await getTestInstance({
+				plugins: [
+					rateLimiter({
+						window: 60,
+						max: 100,
+						storage: "memory",
+						paths,
+						customRules: {
+							"/api/x": { window: 60, max: 10 },
+							"/api/items/:id": { window: 60, max: 5 },
+						},
+					}),
+				],
+			});
+			return (path: string) =>
+				auth.api.checkRateLimit({
+					headers: new Headers({ "x-forwarded-for": ip }),
+					body: { path },
+				});
+		};
+
+		it("should count variants of a path in one bucket", async () => {
+			const check = await createCheck();
+			const variants = [
+				"/api/x",
+				"/api/x/",
+				"/api/x?a=1",
+				"/api/x#top",
+				"//api///x",
+				"/api/y/../x",
+				"/api/./x",
+				"/../api/x",
+				"/api/%78",
+				"/api/%2E%2E/api/x",
+			];
+
+			for (const [index, path] of variants.entries()) {
+				expect(await check(path)).toMatchObject({
+					limit: 10,
+					remaining: 9 - index,
+				});
+			}
+		});
+
+		it("should keep encoded slashes and invalid encodings", async () => {
+			const check = await createCheck(undefined, "10.0.21.2");
+
+			expect((await check("/api/items/a%2Fb")).limit).toBe(5);
+			expect((await check("/api/items/%E0%A4%A")).limit).toBe(5);
+			expect((await check("/api/items/a/b")).limit).toBe(100);
+		});
+
+		it("should be case-sensitive unless lowercase is set", async () => {
+			const sensitive = await createCheck(undefined, "10.0.21.3");
+			expect((await sensitive("/API/X")).limit).toBe(100);
+
+			const insensitive = await createCheck({ lowercase: true }, "10.0.21.4");
+			expect(await insensitive("/api/x")).toMatchObject({ remaining: 9 });
+			expect(await insensitive("/API/X")).toMatchObject({
+				limit: 10,
+				remaining: 8,
+			});
+		});
+
+		it("should use paths verbatim when disabled", async () => {
+			const check = await createCheck(false, "10.0.21.5");
+
+			expect((await check("/api/x")).limit).toBe(10);
+			expect((await check("/api/x/")).limit).toBe(100);
+			expect((await check("/api/%78")).limit).toBe(100);
+		});
+
+		it("should not decode when decode is false", async () => {
+			const check = await createCheck({ decode: false }, "10.0.21.6");
+
+			expect((await check("/api/%78")).limit).toBe(100);
+			expect((await check("/api/x/?a=1")).limit).toBe(10);
+		});
+
+		it("should normalize paths of admin and refund calls", async () => {
+			const { auth, signInWithTestUser } = await getTestInstance({
+				plugins: [
+					rateLimiter({
+						window: 60,
+						max: 3,
+						storage: "memory",
+						isAdmin: () => true,
+					}),
+				],
+			});
+			const headers = new Headers({ "x-forwarded-for": "10.0.21.7" });
+			await auth.api.checkRateLimit({ headers, body: { path: "/api/z" } });
+			await auth.api.refundRateLimit({ headers, body: { path: "/api/z/" } });
+
+			const { headers: sessionHeaders } = await signInWithTestUser();
+			const status = await auth.api.getRateLimitStatus({
+				headers: sessionHeaders,
+				query: { identifier: "10.0.21.7", path: "/api/z?page=2" },
+			});
+			expect(status.entries).toEqual([expect.objectContaining({ count: 0 })]);
+		});
+	});
 });
@@ -0,0 +1,119 @@
+import type { AuthContext } from "@better-auth/core";
+import { getTestInstance } from "better-auth/test";
+import { describe, expect, it, vi } from "vitest";
+import { rateLimiter } from "../src";
+import {
+	createDatabaseStorage,
+	createMemoryStorage,
+	createSecondaryStorageWrapper,
+} from "../src/storage";
+import { runRateLimitStorageTests } from "../src/testing";
+import type { RateLimitStorage } from "../src/types";
+
+let context: Promise<AuthContext> | undefined;
+
+/**
+ * One auth instance with the `rateLimit` table and a secondary storage,
+ * shared by every test.
+ */
+function getContext() {
+	context ??= (async () => {
+		const store = new Map<string, string>();
+		const { auth } = await getTestInstance({
+			secondaryStorage: {
+				get: async (key) => store.get(key) ?? null,
+				set: async (key, value) => {
+					store.set(key, value);
+				},
+				delete: async (key) => {
+					store.delete(key);
+				},
+			},
+			plugins: [rateLimiter({ storage: "database" })],
+		});
+		return auth.$context;
+	})();
+	return context;
+}
+
+runRateLimitStorageTests("memory storage", {
+	createStorage: () => createMemoryStorage(),
+});
+
+runRateLimitStorageTests("database storage", {
+	createStorage: async () => createDatabaseStorage(await getContext()),
+});
+
+runRateLimitStorageTests("secondary storage", {
+	createStorage: async () => createSecondaryStorageWrapper(await getContext()),
+});
+
+describe("custom storage", () => {
+	it("should use a storage passed in options", async () => {
+		const storage = createMemoryStorage();
+		const { auth } = await getTestInstance({
+			plugins: [rateLimiter({ window: 60, max: 1, storage })],
+		});
+		const check = () =>
+			auth.api.checkRateLimit({
+				headers: new Headers({ "x-forwarded-for": "10.3.0.1" }),
+				body: { path: "/api/custom" },
+			});
+
+		expect((await check()).success).toBe(true);
+		expect((await check()).success).toBe(false);
+		expect((await storage.get("rl:10.3.0.1|/api/custom"))?.count).toBe(2);
+	});
+
+	it("should reject a storage implementing another interface version", () => {
+		const storage: RateLimitStorage = {
+			...createMemoryStorage(),
+			version: 2,
+		};
+		expect(() => rateLimiter({ storage })).toThrow(
+			"Rate limiter storage implements version 2 of RateLimitStorage",
+		);
+	});
+});
+
+describe("memory storage", () => {
+	it("should evict the least recently used key beyond maxKeys", async () => {
+		const storage = createMemoryStorage({ maxKeys: 2 });
+
+		await storage.increment("a", 60_000);
+		await storage.increment("b", 60_000);
+		await storage.get("a");
+		await storage.increment("c", 60_000);
+
+		expect(await storage.get("a")).not.toBeNull();
+		expect(await storage.get("b")).toBeNull();
+		expect(await storage.get("c")).not.toBeNull();
+		expect(storage.getStats()).toEqual({ keys: 2, maxKeys: 2, evictions: 1 });
+	});
+
+	it("should sweep expired entries periodically", async () => {
+		vi.useFakeTimers();
+
+		const storage = createMemoryStorage({ sweepInterval: 1000 });
+		const lastRequest = Date.now();
+		await storage.set(
+			"short",
+			{ key: "short", count: 1, lastRequest },
+			false,
+			1,
+		);
+		await storage.set(
+			"long",
+			{ key: "long", count: 1, lastRequest },
+			false,
+			60,
+		);
+		expect(storage.getStats().keys).toBe(2);
+
+		await vi.advanceTimersByTimeAsync(1000);
+		expect(storage.getStats().keys).toBe(1);
+		expect(await storage.get("long")).not.toBeNull();
+
+		vi.useRealTimers();
+	});
+});
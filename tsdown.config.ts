@@ -3,8 +3,8 @@ import { defineConfig } from "tsdown";
 export default defineConfig({
 	dts: { build: true, incremental: true },
 	format: ["esm"],
-	entry: ["./src/index.ts", "./src/client.ts"],
-	external: ["@better-auth/core", "better-auth", "better-call", "zod"],
+	entry: ["./src/index.ts", "./src/client.ts", "./src/testing.ts"],
+	external: ["@better-auth/core", "better-auth", "better-call", "vitest", "zod"],
 	sourcemap: true,
 	treeshake: true,
 });